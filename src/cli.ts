@@ -0,0 +1,462 @@
+import chalk from 'chalk';
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import {
+  ALL_PROFILE,
+  SECRETS_PROVIDERS,
+  SUPERVISOR_SOCKET,
+  getLogFilePath,
+  getProfileApps,
+  getProfileNames,
+  type AppConfig,
+  type Project,
+  type SecretsProviderName,
+  type SecretsSelection,
+} from './config/projects';
+import { getConfig } from './config/loader';
+import { refreshProjects } from './services/projects';
+import { LogTail } from './services/log-tail';
+import { describePortOwner, getAssignedPort, PORT_RESOLUTIONS, type PortResolution } from './services/ports';
+import { formatSecrets, getDefaultSelection, getProjectSelection, resolveSecrets } from './services/secrets';
+import { getPidsOnPort, isProcessRunning, loadState, updateState, type AppState, type ProcessInfo } from './services/state';
+import { connectToSupervisor, SupervisorClient } from './supervisor/client';
+import { isSupervisorRunning } from './supervisor/protocol';
+
+const DEFAULT_LOG_LINES = 200;
+const STATUS_POLL_MS = 250;
+
+// Exit codes
+const EXIT_OK = 0;
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+
+export const USAGE = `Usage: cubicli [command]
+
+Without a command, opens the dashboard.
+
+Commands:
+  start <alias> [--config <name>] [--provider <name>] [--profile <name>]
+        [--on-conflict <move|skip|kill>]
+                                    Start a project (or a profile's apps) and wait
+                                    until they are ready. Apps whose port another
+                                    process holds move to a free port unless
+                                    --on-conflict says otherwise
+  stop <alias|--all>                Stop a project, or every project
+  restart <alias> [app]             Restart a running project, or one of its apps
+  status [--json]                   Show projects and app status
+  logs <alias> <app> [-f] [-n <N>]  Print the last N lines of an app's log (default ${DEFAULT_LOG_LINES})
+  ports                             Show the port of every app and what holds it
+  shutdown                          Stop every project and the supervisor
+  supervisor                        Run the supervisor in the foreground
+
+Exit codes: 0 success, 1 command failed, 2 invalid usage`;
+
+/**
+ * Bad arguments; reported with exit code 2
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+interface ParsedArgs {
+  positionals: string[];
+  flags: Record<string, string | true>;
+}
+
+/**
+ * Split arguments into positionals and flags. Flags listed in valueFlags take
+ * the next argument as their value; any other known flag is a boolean.
+ */
+function parseArgs(args: string[], booleanFlags: string[], valueFlags: string[] = []): ParsedArgs {
+  const parsed: ParsedArgs = { positionals: [], flags: {} };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('-')) {
+      parsed.positionals.push(arg);
+    } else if (valueFlags.includes(arg)) {
+      const value = args[++i];
+      if (value === undefined) {
+        throw new UsageError(`${arg} needs a value`);
+      }
+      parsed.flags[arg] = value;
+    } else if (booleanFlags.includes(arg)) {
+      parsed.flags[arg] = true;
+    } else {
+      throw new UsageError(`unknown option ${arg}`);
+    }
+  }
+
+  return parsed;
+}
+
+function expectPositionals(parsed: ParsedArgs, min: number, max: number, usage: string): void {
+  if (parsed.positionals.length < min || parsed.positionals.length > max) {
+    throw new UsageError(`expected: cubicli ${usage}`);
+  }
+}
+
+async function findProject(alias: string): Promise<Project> {
+  const projects = await refreshProjects();
+  const project = projects.find(p => p.alias === alias);
+  if (!project) {
+    throw new UsageError(`unknown project "${alias}" (expected one of: ${projects.map(p => p.alias).join(', ')})`);
+  }
+  return project;
+}
+
+function expectApp(name: string): void {
+  const { apps } = getConfig();
+  if (!apps.some(a => a.name === name)) {
+    throw new UsageError(`unknown app "${name}" (expected one of: ${apps.map(a => a.name).join(', ')})`);
+  }
+}
+
+/**
+ * Status of an app according to the state file, treating dead PIDs as stopped
+ */
+function getLiveStatus(info: ProcessInfo | undefined): ProcessInfo['status'] {
+  if (!info) return 'stopped';
+  if (info.status !== 'stopped' && !isProcessRunning(info.pid)) return 'stopped';
+  return info.status;
+}
+
+function isProjectActive(state: AppState, alias: string): boolean {
+  const projectState = state.activeProjects[alias];
+  if (!projectState) return false;
+  return Object.values(projectState.processes).some(info => getLiveStatus(info) !== 'stopped');
+}
+
+function formatStatus(status: ProcessInfo['status']): string {
+  switch (status) {
+    case 'running':
+      return chalk.green(status);
+    case 'starting':
+      return chalk.yellow(status);
+    case 'unhealthy':
+      return chalk.hex('#FF8700')(status);
+    case 'stopped':
+      return chalk.dim(status);
+    default:
+      return chalk.red(status);
+  }
+}
+
+/**
+ * Wait for a project's apps to pass or fail readiness, then print each app's
+ * status. Fails unless all are running.
+ */
+async function reportProjectStatus(project: Project, apps: AppConfig[]): Promise<number> {
+  let processes: Record<string, ProcessInfo> = {};
+  for (;;) {
+    const state = await loadState();
+    processes = state.activeProjects[project.alias]?.processes ?? {};
+    if (!apps.some(app => getLiveStatus(processes[app.name]) === 'starting')) break;
+    await Bun.sleep(STATUS_POLL_MS);
+  }
+
+  let allRunning = true;
+
+  for (const app of apps) {
+    const status = getLiveStatus(processes[app.name]);
+    if (status !== 'running') allRunning = false;
+    console.log(`  ${app.name.padEnd(16)} ${formatStatus(status)}`);
+  }
+  return allRunning ? EXIT_OK : EXIT_FAILURE;
+}
+
+async function startCommand(args: string[]): Promise<number> {
+  const parsed = parseArgs(args, [], ['--config', '--provider', '--profile', '--on-conflict']);
+  expectPositionals(parsed, 1, 1, 'start <alias> [--config <name>] [--provider <name>] [--profile <name>] [--on-conflict <move|skip|kill>]');
+  const project = await findProject(parsed.positionals[0]);
+
+  const onConflict = (parsed.flags['--on-conflict'] as string | undefined) ?? 'move';
+  if (!PORT_RESOLUTIONS.includes(onConflict as PortResolution)) {
+    throw new UsageError(`--on-conflict must be one of: ${PORT_RESOLUTIONS.join(', ')}`);
+  }
+
+  const state = await loadState();
+  if (isProjectActive(state, project.alias)) {
+    console.log(`${project.alias} is already running`);
+    return EXIT_OK;
+  }
+
+  const remembered = getProjectSelection(project, state);
+  const provider = (parsed.flags['--provider'] as string | undefined) ?? remembered.provider;
+  if (!SECRETS_PROVIDERS.includes(provider as SecretsProviderName)) {
+    throw new UsageError(`--provider must be one of: ${SECRETS_PROVIDERS.join(', ')}`);
+  }
+  const secrets: SecretsSelection = {
+    provider: provider as SecretsProviderName,
+    config: (parsed.flags['--config'] as string | undefined) ?? remembered.config,
+  };
+
+  const profile = (parsed.flags['--profile'] as string | undefined) ?? state.profileChoices?.[project.alias] ?? ALL_PROFILE;
+  if (!getProfileNames().includes(profile)) {
+    throw new UsageError(`unknown profile "${profile}" (expected one of: ${getProfileNames().join(', ')})`);
+  }
+
+  // Explicit choices become the project's remembered ones, like picking them in the dashboard
+  const pickedSecrets = parsed.flags['--config'] !== undefined || parsed.flags['--provider'] !== undefined;
+  const pickedProfile = parsed.flags['--profile'] !== undefined;
+  if (pickedSecrets || pickedProfile) {
+    await updateState((latest) => {
+      if (pickedSecrets) {
+        latest.secretsChoices = { ...latest.secretsChoices, [project.alias]: secrets };
+      }
+      if (pickedProfile) {
+        latest.profileChoices = { ...latest.profileChoices, [project.alias]: profile };
+      }
+    });
+  }
+
+  const supervisor = await connectToSupervisor();
+  const portResolutions: Record<string, PortResolution> = {};
+  for (const conflict of await supervisor.checkPorts(project, profile)) {
+    portResolutions[conflict.app] = onConflict as PortResolution;
+    const owners = conflict.owners.map(describePortOwner).join(', ');
+    console.log(chalk.yellow(`${conflict.app}: port ${conflict.port} is used by ${owners} (${onConflict})`));
+  }
+
+  const profileNote = profile === ALL_PROFILE ? '' : `, profile ${profile}`;
+  console.log(`Starting ${project.alias} (${formatSecrets(resolveSecrets(project, secrets))}${profileNote})...`);
+  await supervisor.startProject(project, secrets, profile, portResolutions);
+  supervisor.disconnect();
+
+  return reportProjectStatus(project, getProfileApps(profile));
+}
+
+async function stopCommand(args: string[]): Promise<number> {
+  const parsed = parseArgs(args, ['--all']);
+  const all = parsed.flags['--all'] === true;
+  expectPositionals(parsed, all ? 0 : 1, all ? 0 : 1, 'stop <alias|--all>');
+
+  const state = await loadState();
+  const aliases = all
+    ? Object.keys(state.activeProjects).filter(alias => isProjectActive(state, alias))
+    : [(await findProject(parsed.positionals[0])).alias];
+
+  if (!aliases.some(alias => isProjectActive(state, alias))) {
+    console.log(all ? 'No projects running' : `${aliases[0]} is not running`);
+    return EXIT_OK;
+  }
+
+  const supervisor = await connectToSupervisor();
+  if (all) {
+    await supervisor.stopAllProjects();
+  } else {
+    await supervisor.stopProject(aliases[0]);
+  }
+  supervisor.disconnect();
+
+  console.log(`Stopped ${aliases.join(', ')}`);
+  return EXIT_OK;
+}
+
+async function restartCommand(args: string[]): Promise<number> {
+  const parsed = parseArgs(args, []);
+  expectPositionals(parsed, 1, 2, 'restart <alias> [app]');
+  const project = await findProject(parsed.positionals[0]);
+  const appName = parsed.positionals[1];
+  if (appName) expectApp(appName);
+
+  const state = await loadState();
+  const projectState = state.activeProjects[project.alias];
+  if (!projectState || !isProjectActive(state, project.alias)) {
+    console.error(`${project.alias} is not running`);
+    return EXIT_FAILURE;
+  }
+
+  const supervisor = await connectToSupervisor();
+  if (appName) {
+    console.log(`Restarting ${project.alias}/${appName}...`);
+    await supervisor.restartApp(appName, project, projectState.secrets);
+  } else {
+    console.log(`Restarting ${project.alias}...`);
+    await supervisor.restartProject(project, projectState.secrets);
+  }
+  supervisor.disconnect();
+
+  return reportProjectStatus(project, appName ? getConfig().apps.filter(a => a.name === appName) : getProfileApps(projectState.profile));
+}
+
+async function statusCommand(args: string[]): Promise<number> {
+  const parsed = parseArgs(args, ['--json']);
+  expectPositionals(parsed, 0, 0, 'status [--json]');
+
+  const projects = await refreshProjects();
+  const state = await loadState();
+  const { apps } = getConfig();
+
+  const report = {
+    supervisor: await isSupervisorRunning(SUPERVISOR_SOCKET),
+    secrets: getDefaultSelection(state),
+    projects: projects.map(project => {
+      const projectState = state.activeProjects[project.alias];
+      return {
+        alias: project.alias,
+        name: project.name,
+        path: project.path,
+        running: isProjectActive(state, project.alias),
+        secrets: projectState?.secrets ?? null,
+        profile: projectState?.profile ?? null,
+        apps: apps.map(app => {
+          const info = projectState?.processes[app.name];
+          const status = getLiveStatus(info);
+          return {
+            name: app.name,
+            port: getAssignedPort(state, app, project),
+            status,
+            pid: status === 'stopped' ? null : info?.pid ?? null,
+            restarts: info?.restarts ?? 0,
+          };
+        }),
+      };
+    }),
+  };
+
+  if (parsed.flags['--json']) {
+    console.log(JSON.stringify(report, null, 2));
+    return EXIT_OK;
+  }
+
+  console.log(`Supervisor: ${report.supervisor ? chalk.green('running') : chalk.dim('not running')}`);
+  for (const project of report.projects) {
+    const profile = project.profile && project.profile !== ALL_PROFILE ? `, profile ${project.profile}` : '';
+    const config = project.secrets ? chalk.dim(` (${formatSecrets(project.secrets)}${profile})`) : '';
+    console.log(`\n${chalk.bold(project.alias)}${config} ${chalk.dim(project.path)}`);
+    for (const app of project.apps) {
+      const pid = app.pid ? chalk.dim(` pid ${app.pid}`) : '';
+      const restarts = app.restarts > 0 ? chalk.dim(` ↻${app.restarts}`) : '';
+      console.log(`  ${app.name.padEnd(16)} :${String(app.port).padEnd(6)} ${formatStatus(app.status)}${pid}${restarts}`);
+    }
+  }
+  return EXIT_OK;
+}
+
+async function logsCommand(args: string[]): Promise<number> {
+  const parsed = parseArgs(args, ['-f', '--follow'], ['-n']);
+  expectPositionals(parsed, 2, 2, 'logs <alias> <app> [-f] [-n <N>]');
+  const project = await findProject(parsed.positionals[0]);
+  const appName = parsed.positionals[1];
+  expectApp(appName);
+
+  let count = DEFAULT_LOG_LINES;
+  if (parsed.flags['-n'] !== undefined) {
+    count = Number(parsed.flags['-n']);
+    if (!Number.isInteger(count) || count < 0) {
+      throw new UsageError('-n must be a non-negative integer');
+    }
+  }
+  const follow = parsed.flags['-f'] === true || parsed.flags['--follow'] === true;
+
+  const logFile = getLogFilePath(project.alias, appName);
+  if (!existsSync(logFile) && !follow) {
+    console.error(`No logs for ${project.alias}/${appName}`);
+    return EXIT_FAILURE;
+  }
+
+  let content = '';
+  if (existsSync(logFile)) {
+    content = await readFile(logFile, 'utf-8');
+    const lines = content.split('\n').filter(line => line.trim());
+    for (const line of count > 0 ? lines.slice(-count) : []) {
+      console.log(line);
+    }
+  }
+
+  if (!follow) return EXIT_OK;
+
+  // Continue right after what was printed; runs until interrupted
+  const tail = new LogTail(logFile, (line) => console.log(line));
+  await tail.start(Buffer.byteLength(content));
+  return new Promise((resolve) => {
+    process.on('SIGINT', () => {
+      tail.stop();
+      resolve(EXIT_OK);
+    });
+  });
+}
+
+async function portsCommand(args: string[]): Promise<number> {
+  const parsed = parseArgs(args, []);
+  expectPositionals(parsed, 0, 0, 'ports');
+
+  const projects = await refreshProjects();
+  const state = await loadState();
+  const { apps } = getConfig();
+
+  for (const project of projects) {
+    console.log(chalk.bold(project.alias));
+    for (const app of apps) {
+      const port = getAssignedPort(state, app, project);
+      const info = state.activeProjects[project.alias]?.processes[app.name];
+      const pids = await getPidsOnPort(port);
+
+      let holder: string;
+      if (pids.length === 0) {
+        holder = chalk.dim('free');
+      } else if (info && getLiveStatus(info) !== 'stopped') {
+        holder = chalk.green(`cubicli (pid ${info.pid})`);
+      } else {
+        holder = chalk.yellow(`in use (pid ${pids.join(', ')})`);
+      }
+      console.log(`  ${app.name.padEnd(16)} :${String(port).padEnd(6)} ${holder}`);
+    }
+  }
+  return EXIT_OK;
+}
+
+async function shutdownCommand(args: string[]): Promise<number> {
+  expectPositionals(parseArgs(args, []), 0, 0, 'shutdown');
+
+  if (!(await isSupervisorRunning(SUPERVISOR_SOCKET))) {
+    console.log('No supervisor running');
+    return EXIT_OK;
+  }
+  const client = new SupervisorClient();
+  await client.connect();
+  await client.shutdown();
+  console.log('Supervisor stopped');
+  return EXIT_OK;
+}
+
+const COMMANDS: Record<string, (args: string[]) => Promise<number>> = {
+  start: startCommand,
+  stop: stopCommand,
+  restart: restartCommand,
+  status: statusCommand,
+  logs: logsCommand,
+  ports: portsCommand,
+  shutdown: shutdownCommand,
+};
+
+/**
+ * Run a non-interactive command and return its exit code
+ */
+export async function runCommand(command: string, args: string[]): Promise<number> {
+  if (command === 'help' || command === '--help' || command === '-h') {
+    console.log(USAGE);
+    return EXIT_OK;
+  }
+
+  const handler = COMMANDS[command];
+  if (!handler) {
+    console.error(`cubicli: unknown command "${command}"\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  try {
+    return await handler(args);
+  } catch (err) {
+    if (err instanceof UsageError) {
+      console.error(`cubicli ${command}: ${err.message}`);
+      return EXIT_USAGE;
+    }
+    console.error(`cubicli ${command}: ${(err as Error).message}`);
+    return EXIT_FAILURE;
+  }
+}
@@ -0,0 +1,87 @@
+import type { AppConfig } from './projects';
+
+/**
+ * Find a dependency cycle among apps, returned as the chain of app names
+ * (first name repeated at the end), or null when the graph is acyclic
+ */
+export function findDependencyCycle(apps: AppConfig[]): string[] | null {
+  const byName = new Map(apps.map(app => [app.name, app]));
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (name: string): string[] | null => {
+    if (visiting.has(name)) {
+      return [...path.slice(path.indexOf(name)), name];
+    }
+    if (visited.has(name)) return null;
+
+    visiting.add(name);
+    path.push(name);
+    for (const dep of byName.get(name)?.dependsOn ?? []) {
+      const cycle = visit(dep);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    visiting.delete(name);
+    visited.add(name);
+    return null;
+  };
+
+  for (const app of apps) {
+    const cycle = visit(app.name);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+/**
+ * Group apps into startup layers: every app comes after all of its dependencies,
+ * and apps within a layer don't depend on each other. Stop order is the reverse.
+ * Dependencies on apps outside the given list are ignored.
+ */
+export function getStartupLayers(apps: AppConfig[]): AppConfig[][] {
+  const byName = new Map(apps.map(app => [app.name, app]));
+  const depths = new Map<string, number>();
+
+  const depthOf = (app: AppConfig): number => {
+    const known = depths.get(app.name);
+    if (known !== undefined) return known;
+
+    let depth = 0;
+    for (const dep of app.dependsOn ?? []) {
+      const depApp = byName.get(dep);
+      if (depApp) depth = Math.max(depth, depthOf(depApp) + 1);
+    }
+    depths.set(app.name, depth);
+    return depth;
+  };
+
+  const layers: AppConfig[][] = [];
+  for (const app of apps) {
+    const depth = depthOf(app);
+    (layers[depth] ??= []).push(app);
+  }
+  return layers.filter(Boolean);
+}
+
+/**
+ * Get every app an app depends on, directly or through other apps
+ */
+export function getTransitiveDependencies(app: AppConfig, apps: AppConfig[]): AppConfig[] {
+  const byName = new Map(apps.map(a => [a.name, a]));
+  const found = new Map<string, AppConfig>();
+
+  const visit = (current: AppConfig): void => {
+    for (const dep of current.dependsOn ?? []) {
+      const depApp = byName.get(dep);
+      if (depApp && !found.has(dep)) {
+        found.set(dep, depApp);
+        visit(depApp);
+      }
+    }
+  };
+
+  visit(app);
+  return Array.from(found.values());
+}
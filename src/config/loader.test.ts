@@ -0,0 +1,53 @@
+import { afterAll, beforeAll, expect, test } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const home = mkdtempSync(join(tmpdir(), 'cubicli-loader-'));
+const originalHome = process.env.HOME;
+const originalCwd = process.cwd();
+
+// CONFIG_FILE is derived from HOME when the module loads, so import it afterwards
+let loadConfig: typeof import('./loader').loadConfig;
+
+beforeAll(async () => {
+  process.env.HOME = home;
+  mkdirSync(join(home, '.cubicli'));
+  process.chdir(home);
+  ({ loadConfig } = await import('./loader'));
+});
+
+afterAll(() => {
+  process.chdir(originalCwd);
+  process.env.HOME = originalHome;
+  rmSync(home, { recursive: true, force: true });
+});
+
+function writeGlobalConfig(config: unknown): void {
+  writeFileSync(join(home, '.cubicli', 'config.json'), JSON.stringify(config));
+}
+
+test('custom apps without an env block load without the default env templates', () => {
+  writeGlobalConfig({
+    apps: [{ name: 'web', basePort: 3000, command: 'bun run dev' }],
+  });
+
+  const config = loadConfig();
+  expect(config.apps.map(a => a.name)).toEqual(['web']);
+  expect(config.env).toEqual({});
+});
+
+test('custom apps keep their own env block', () => {
+  writeGlobalConfig({
+    env: { WEB_URL: '{{apps.web.url}}' },
+    apps: [{ name: 'web', basePort: 3000, command: 'bun run dev' }],
+  });
+
+  expect(loadConfig().env).toEqual({ WEB_URL: '{{apps.web.url}}' });
+});
+
+test('default apps keep the default env templates', () => {
+  writeGlobalConfig({ portOffset: 10 });
+
+  expect(loadConfig().env.MICROSERVICE_API_PORT).toBe('{{apps.api.port}}');
+});
@@ -0,0 +1,532 @@
+import { existsSync, readFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { findDependencyCycle } from './dependencies';
+import { findUnknownVariable } from './templates';
+import {
+  ALL_PROFILE,
+  CONFIG_FILE,
+  DEFAULT_CONFIG,
+  LOCAL_CONFIG_FILE,
+  SECRETS_PROVIDERS,
+  type AppConfig,
+  type CubicliConfig,
+  type Project,
+  type ReadinessProbe,
+  type RestartPolicy,
+  type SecretsSettings,
+} from './projects';
+
+export class ConfigError extends Error {
+  constructor(public readonly file: string, message: string) {
+    super(`Invalid config in ${file}: ${message}`);
+    this.name = 'ConfigError';
+  }
+}
+
+type RawConfig = Partial<Record<keyof CubicliConfig, unknown>>;
+
+let loadedConfig: CubicliConfig | null = null;
+// Deprecated settings seen while loading, for the caller to show
+let configWarnings: string[] = [];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Expand a leading ~ and resolve relative paths against the config file's directory
+ */
+function resolvePath(path: string, baseDir: string): string {
+  if (path === '~' || path.startsWith('~/')) {
+    return `${process.env.HOME}${path.slice(1)}`;
+  }
+  return resolve(baseDir, path);
+}
+
+function expectString(file: string, value: unknown, field: string): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new ConfigError(file, `${field} must be a non-empty string`);
+  }
+  return value;
+}
+
+function expectPort(file: string, value: unknown, field: string): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > 65535) {
+    throw new ConfigError(file, `${field} must be an integer between 1 and 65535`);
+  }
+  return value;
+}
+
+function parsePortRange(file: string, value: unknown, field: string): { from: number; to: number } | undefined {
+  if (value === undefined) return undefined;
+  if (!isObject(value)) {
+    throw new ConfigError(file, `${field} must be an object like { "from": 4200, "to": 4299 }`);
+  }
+  const from = expectPort(file, value.from, `${field}.from`);
+  const to = expectPort(file, value.to, `${field}.to`);
+  if (to < from) {
+    throw new ConfigError(file, `${field}.to must not be below ${field}.from`);
+  }
+  return { from, to };
+}
+
+function expectIndex(file: string, value: unknown, field: string): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+    throw new ConfigError(file, `${field} must be a non-negative integer`);
+  }
+  return value;
+}
+
+function expectDuration(file: string, value: unknown, field: string): number | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+    throw new ConfigError(file, `${field} must be a positive number of milliseconds`);
+  }
+  return value;
+}
+
+function parseReadiness(file: string, value: unknown, field: string): ReadinessProbe | undefined {
+  if (value === undefined) return undefined;
+  if (!isObject(value)) {
+    throw new ConfigError(file, `${field} must be an object`);
+  }
+
+  const timing = {
+    interval: expectDuration(file, value.interval, `${field}.interval`),
+    timeout: expectDuration(file, value.timeout, `${field}.timeout`),
+  };
+
+  switch (value.type) {
+    case 'tcp':
+      return { type: 'tcp', ...timing };
+
+    case 'http': {
+      if (value.path !== undefined && (typeof value.path !== 'string' || !value.path.startsWith('/'))) {
+        throw new ConfigError(file, `${field}.path must start with "/"`);
+      }
+      if (value.expectedStatus !== undefined) {
+        const status = value.expectedStatus;
+        if (typeof status !== 'number' || !Number.isInteger(status) || status < 100 || status > 599) {
+          throw new ConfigError(file, `${field}.expectedStatus must be an HTTP status code`);
+        }
+      }
+      return {
+        type: 'http',
+        path: value.path as string | undefined,
+        expectedStatus: value.expectedStatus as number | undefined,
+        ...timing,
+      };
+    }
+
+    case 'log': {
+      const pattern = expectString(file, value.pattern, `${field}.pattern`);
+      try {
+        new RegExp(pattern);
+      } catch (err) {
+        throw new ConfigError(file, `${field}.pattern is not a valid regex (${(err as Error).message})`);
+      }
+      return { type: 'log', pattern, ...timing };
+    }
+
+    default:
+      throw new ConfigError(file, `${field}.type must be one of: tcp, http, log`);
+  }
+}
+
+function parseRestart(file: string, value: unknown, field: string): RestartPolicy | undefined {
+  if (value === undefined) return undefined;
+  if (!isObject(value)) {
+    throw new ConfigError(file, `${field} must be an object`);
+  }
+  if (value.policy !== 'never' && value.policy !== 'on-failure' && value.policy !== 'always') {
+    throw new ConfigError(file, `${field}.policy must be one of: never, on-failure, always`);
+  }
+  if (value.maxRestarts !== undefined && (typeof value.maxRestarts !== 'number' || !Number.isInteger(value.maxRestarts) || value.maxRestarts < 1)) {
+    throw new ConfigError(file, `${field}.maxRestarts must be a positive integer`);
+  }
+
+  return {
+    policy: value.policy,
+    maxRestarts: value.maxRestarts as number | undefined,
+    window: expectDuration(file, value.window, `${field}.window`),
+    backoff: expectDuration(file, value.backoff, `${field}.backoff`),
+    maxBackoff: expectDuration(file, value.maxBackoff, `${field}.maxBackoff`),
+  };
+}
+
+function parseSecrets(file: string, value: unknown, field: string): SecretsSettings {
+  if (!isObject(value)) {
+    throw new ConfigError(file, `${field} must be an object like { "provider": "dotenv" }`);
+  }
+  const provider = SECRETS_PROVIDERS.find(p => p === value.provider);
+  if (!provider) {
+    throw new ConfigError(file, `${field}.provider must be one of: ${SECRETS_PROVIDERS.join(', ')}`);
+  }
+
+  return {
+    provider,
+    config: value.config === undefined ? undefined : expectString(file, value.config, `${field}.config`),
+    file: value.file === undefined ? undefined : expectString(file, value.file, `${field}.file`),
+  };
+}
+
+/**
+ * Split a command line into argv like a shell would: whitespace separates
+ * words, quotes group them and a backslash escapes the next character.
+ * Returns null for an unterminated quote.
+ */
+function splitCommand(command: string): string[] | null {
+  const words: string[] = [];
+  let word: string | null = null;
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else if (char === '\\' && quote === '"' && i + 1 < command.length) {
+        word += command[++i];
+      } else {
+        word += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      word ??= '';
+    } else if (char === '\\' && i + 1 < command.length) {
+      word = (word ?? '') + command[++i];
+    } else if (/\s/.test(char)) {
+      if (word !== null) words.push(word);
+      word = null;
+    } else {
+      word = (word ?? '') + char;
+    }
+  }
+
+  if (quote) return null;
+  if (word !== null) words.push(word);
+  return words;
+}
+
+function parseCommand(file: string, value: unknown, field: string): string[] {
+  if (Array.isArray(value)) {
+    const argv = value.map((word, i) => expectString(file, word, `${field}[${i}]`));
+    if (argv.length > 0) return argv;
+  } else if (typeof value === 'string') {
+    const argv = splitCommand(value);
+    if (!argv) {
+      throw new ConfigError(file, `${field} has an unterminated quote`);
+    }
+    if (argv.length > 0) return argv;
+  }
+  throw new ConfigError(file, `${field} must be a non-empty string or array of strings`);
+}
+
+function parseEnv(file: string, value: unknown, field: string): Record<string, string> | undefined {
+  if (value === undefined) return undefined;
+  if (!isObject(value)) {
+    throw new ConfigError(file, `${field} must be an object mapping env var names to templates`);
+  }
+
+  const env: Record<string, string> = {};
+  for (const [name, template] of Object.entries(value)) {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+      throw new ConfigError(file, `${field} has an invalid env var name "${name}"`);
+    }
+    if (typeof template !== 'string') {
+      throw new ConfigError(file, `${field}.${name} must be a string`);
+    }
+    env[name] = template;
+  }
+  return env;
+}
+
+function parseProfiles(file: string, value: unknown): Record<string, string[]> {
+  if (!isObject(value)) {
+    throw new ConfigError(file, 'profiles must be an object like { "backend": ["api"] }');
+  }
+
+  const profiles: Record<string, string[]> = {};
+  for (const [name, apps] of Object.entries(value)) {
+    if (name === ALL_PROFILE) {
+      throw new ConfigError(file, `profiles.${ALL_PROFILE} is built in and always starts every app`);
+    }
+    if (!Array.isArray(apps) || apps.length === 0) {
+      throw new ConfigError(file, `profiles.${name} must be a non-empty array of app names`);
+    }
+    profiles[name] = apps.map((app, i) => expectString(file, app, `profiles.${name}[${i}]`));
+  }
+  return profiles;
+}
+
+function expectUnique(file: string, values: (string | number)[], field: string): void {
+  const seen = new Set<string | number>();
+  for (const value of values) {
+    if (seen.has(value)) {
+      throw new ConfigError(file, `duplicate ${field} "${value}"`);
+    }
+    seen.add(value);
+  }
+}
+
+function parseProjects(file: string, value: unknown): Project[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new ConfigError(file, 'projects must be a non-empty array');
+  }
+
+  const baseDir = dirname(file);
+  const projects = value.map((raw, i): Project => {
+    const field = `projects[${i}]`;
+    if (!isObject(raw)) {
+      throw new ConfigError(file, `${field} must be an object`);
+    }
+    const name = expectString(file, raw.name, `${field}.name`);
+    return {
+      name,
+      alias: raw.alias === undefined ? name : expectString(file, raw.alias, `${field}.alias`),
+      path: resolvePath(expectString(file, raw.path, `${field}.path`), baseDir),
+      index: raw.index === undefined ? i : expectIndex(file, raw.index, `${field}.index`),
+      secrets: raw.secrets === undefined ? undefined : parseSecrets(file, raw.secrets, `${field}.secrets`),
+    };
+  });
+
+  expectUnique(file, projects.map(p => p.alias), 'project alias');
+  expectUnique(file, projects.map(p => p.index), 'project index');
+  return projects;
+}
+
+function parseApps(file: string, value: unknown): AppConfig[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new ConfigError(file, 'apps must be a non-empty array');
+  }
+
+  const apps = value.map((raw, i): AppConfig => {
+    const field = `apps[${i}]`;
+    if (!isObject(raw)) {
+      throw new ConfigError(file, `${field} must be an object`);
+    }
+    if (raw.dependsOn !== undefined && !Array.isArray(raw.dependsOn)) {
+      throw new ConfigError(file, `${field}.dependsOn must be an array of app names`);
+    }
+    if (raw.args !== undefined && !Array.isArray(raw.args)) {
+      throw new ConfigError(file, `${field}.args must be an array of strings`);
+    }
+    return {
+      name: expectString(file, raw.name, `${field}.name`),
+      basePort: expectPort(file, raw.basePort, `${field}.basePort`),
+      portRange: parsePortRange(file, raw.portRange, `${field}.portRange`),
+      command: parseCommand(file, raw.command, `${field}.command`),
+      env: parseEnv(file, raw.env, `${field}.env`),
+      args: raw.args?.map((arg, j) => expectString(file, arg, `${field}.args[${j}]`)),
+      dependsOn: raw.dependsOn?.map((dep, j) => expectString(file, dep, `${field}.dependsOn[${j}]`)),
+      readiness: parseReadiness(file, raw.readiness, `${field}.readiness`),
+      restart: parseRestart(file, raw.restart, `${field}.restart`),
+    };
+  });
+
+  expectUnique(file, apps.map(a => a.name), 'app name');
+  return apps;
+}
+
+/**
+ * Turn the settings env templates replaced into global env templates: each
+ * app's portEnvVar/hostEnvVar and the top-level urlEnvVars ({ envVar: appName })
+ */
+function parseLegacyEnv(file: string, raw: Record<string, unknown>): Record<string, string> {
+  const env: Record<string, string> = {};
+  const templates: string[] = [];
+
+  if (Array.isArray(raw.apps)) {
+    raw.apps.forEach((app, i) => {
+      if (!isObject(app) || typeof app.name !== 'string') return;
+      if (app.portEnvVar !== undefined) {
+        env[expectString(file, app.portEnvVar, `apps[${i}].portEnvVar`)] = `{{apps.${app.name}.port}}`;
+      }
+      if (app.hostEnvVar !== undefined) {
+        env[expectString(file, app.hostEnvVar, `apps[${i}].hostEnvVar`)] = `{{apps.${app.name}.host}}`;
+      }
+    });
+  }
+
+  if (raw.urlEnvVars !== undefined) {
+    if (!isObject(raw.urlEnvVars)) {
+      throw new ConfigError(file, 'urlEnvVars must be an object mapping env var names to app names');
+    }
+    for (const [envVar, appName] of Object.entries(raw.urlEnvVars)) {
+      env[envVar] = `{{apps.${expectString(file, appName, `urlEnvVars.${envVar}`)}.url}}`;
+    }
+  }
+
+  for (const [envVar, template] of Object.entries(env)) {
+    templates.push(`"${envVar}": "${template}"`);
+  }
+  if (templates.length > 0) {
+    configWarnings.push(
+      `${file}: portEnvVar, hostEnvVar and urlEnvVars are deprecated; move them to "env": { ${templates.join(', ')} }`
+    );
+  }
+  return env;
+}
+
+/**
+ * Validate a raw config object, keeping only the keys it defines
+ */
+function parseConfig(file: string, raw: unknown): Partial<CubicliConfig> {
+  if (!isObject(raw)) {
+    throw new ConfigError(file, 'top level must be a JSON object');
+  }
+
+  const known: (keyof CubicliConfig)[] = ['portOffset', 'secrets', 'dopplerConfigs', 'env', 'profiles', 'discovery', 'projects', 'apps'];
+  for (const key of Object.keys(raw)) {
+    if (key !== 'urlEnvVars' && !known.includes(key as keyof CubicliConfig)) {
+      throw new ConfigError(file, `unknown key "${key}" (expected one of: ${known.join(', ')})`);
+    }
+  }
+
+  const config: RawConfig = raw;
+  const parsed: Partial<CubicliConfig> = {};
+
+  if (config.portOffset !== undefined) {
+    if (typeof config.portOffset !== 'number' || !Number.isInteger(config.portOffset) || config.portOffset < 1) {
+      throw new ConfigError(file, 'portOffset must be a positive integer');
+    }
+    parsed.portOffset = config.portOffset;
+  }
+
+  if (config.secrets !== undefined) {
+    parsed.secrets = parseSecrets(file, config.secrets, 'secrets');
+  }
+
+  if (config.dopplerConfigs !== undefined) {
+    if (!Array.isArray(config.dopplerConfigs) || config.dopplerConfigs.length === 0) {
+      throw new ConfigError(file, 'dopplerConfigs must be a non-empty array of strings');
+    }
+    parsed.dopplerConfigs = config.dopplerConfigs.map((c, i) => expectString(file, c, `dopplerConfigs[${i}]`));
+  }
+
+  if (config.env !== undefined) {
+    parsed.env = parseEnv(file, config.env, 'env');
+  }
+
+  // Explicit env templates win over translated legacy settings
+  const legacyEnv = parseLegacyEnv(file, raw);
+  if (Object.keys(legacyEnv).length > 0) {
+    parsed.env = { ...legacyEnv, ...parsed.env };
+  }
+
+  if (config.profiles !== undefined) {
+    parsed.profiles = parseProfiles(file, config.profiles);
+  }
+
+  if (config.discovery === null) {
+    parsed.discovery = null;
+  } else if (config.discovery !== undefined) {
+    if (!isObject(config.discovery)) {
+      throw new ConfigError(file, 'discovery must be an object like { "root": "~/Projects/cubic" }');
+    }
+    parsed.discovery = {
+      root: resolvePath(expectString(file, config.discovery.root, 'discovery.root'), dirname(file)),
+    };
+  }
+
+  if (config.projects !== undefined) {
+    parsed.projects = parseProjects(file, config.projects);
+  }
+
+  if (config.apps !== undefined) {
+    parsed.apps = parseApps(file, config.apps);
+  }
+
+  return parsed;
+}
+
+function readConfigFile(file: string): Partial<CubicliConfig> {
+  if (!existsSync(file)) return {};
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(file, 'utf-8'));
+  } catch (err) {
+    throw new ConfigError(file, `could not parse JSON (${(err as Error).message})`);
+  }
+  return parseConfig(file, raw);
+}
+
+/**
+ * Check references between sections once all files are merged
+ */
+function validateMerged(config: CubicliConfig, file: string): void {
+  const appNames = new Set(config.apps.map(a => a.name));
+  const checkTemplate = (template: string, field: string): void => {
+    const unknown = findUnknownVariable(template, appNames);
+    if (unknown) {
+      throw new ConfigError(file, `${field} uses unknown variable {{${unknown}}}`);
+    }
+  };
+
+  for (const [envVar, template] of Object.entries(config.env)) {
+    checkTemplate(template, `env.${envVar}`);
+  }
+  for (const app of config.apps) {
+    for (const [envVar, template] of Object.entries(app.env ?? {})) {
+      checkTemplate(template, `app "${app.name}" env.${envVar}`);
+    }
+    app.args?.forEach((template, i) => checkTemplate(template, `app "${app.name}" args[${i}]`));
+  }
+
+  for (const app of config.apps) {
+    for (const dep of app.dependsOn ?? []) {
+      if (!appNames.has(dep)) {
+        throw new ConfigError(file, `app "${app.name}" depends on unknown app "${dep}"`);
+      }
+    }
+  }
+
+  for (const [profile, apps] of Object.entries(config.profiles)) {
+    const unknown = apps.find(app => !appNames.has(app));
+    if (unknown) {
+      throw new ConfigError(file, `profile "${profile}" uses unknown app "${unknown}"`);
+    }
+  }
+
+  const cycle = findDependencyCycle(config.apps);
+  if (cycle) {
+    throw new ConfigError(file, `dependency cycle between apps: ${cycle.join(' -> ')}`);
+  }
+}
+
+/**
+ * Load config from ~/.cubicli/config.json, overridden key-by-key by a repo-local
+ * .cubicli.json in the current directory. Missing files fall back to the defaults.
+ */
+export function loadConfig(): CubicliConfig {
+  configWarnings = [];
+  const localFile = resolve(process.cwd(), LOCAL_CONFIG_FILE);
+  const globalConfig = readConfigFile(CONFIG_FILE);
+  const localConfig = readConfigFile(localFile);
+  const config: CubicliConfig = { ...DEFAULT_CONFIG, ...globalConfig, ...localConfig };
+
+  // The default env templates point at the default apps, so custom apps start without them
+  if ((globalConfig.apps || localConfig.apps) && !globalConfig.env && !localConfig.env) {
+    config.env = {};
+  }
+
+  validateMerged(config, existsSync(localFile) ? localFile : CONFIG_FILE);
+
+  loadedConfig = config;
+  return config;
+}
+
+/**
+ * Deprecated settings found by the last load, one message each
+ */
+export function getConfigWarnings(): string[] {
+  return configWarnings;
+}
+
+/**
+ * Get the loaded config, loading it on first use
+ */
+export function getConfig(): CubicliConfig {
+  return loadedConfig ?? loadConfig();
+}
@@ -1,89 +1,198 @@
+import { getConfig } from './loader';
+import { getTransitiveDependencies } from './dependencies';
+
+export type SecretsProviderName = 'doppler' | 'dotenv' | 'json' | 'none';
+export const SECRETS_PROVIDERS: SecretsProviderName[] = ['doppler', 'dotenv', 'json', 'none'];
+
+export interface SecretsSettings {
+  provider: SecretsProviderName;
+  config?: string;  // Fixed config name; defaults to the globally selected one
+  file?: string;    // JSON provider: secrets file relative to the project (default secrets.json)
+}
+
+// The provider and config name an app was started with. For Doppler the config is
+// a Doppler config, for dotenv the suffix of .env.<config>, for JSON a top-level key.
+export interface SecretsSelection {
+  provider: SecretsProviderName;
+  config: string;
+}
+
 export interface Project {
   name: string;
   alias: string;
   path: string;
   index: number;
+  secrets?: SecretsSettings;  // Overrides the global secrets settings
+}
+
+interface ProbeTiming {
+  interval?: number;  // ms between checks
+  timeout?: number;   // ms to wait for the first success before marking the app unhealthy
+}
+
+export type ReadinessProbe =
+  | ({ type: 'tcp' } & ProbeTiming)
+  | ({ type: 'http'; path?: string; expectedStatus?: number } & ProbeTiming)
+  | ({ type: 'log'; pattern: string } & ProbeTiming);
+
+export interface RestartPolicy {
+  policy: 'never' | 'on-failure' | 'always';
+  maxRestarts?: number;  // Restarts allowed within `window` before giving up (crash loop)
+  window?: number;       // ms
+  backoff?: number;      // Initial delay in ms, doubled for each recent restart
+  maxBackoff?: number;   // ms
 }
 
 export interface AppConfig {
   name: string;
   basePort: number;
-  command: string;
-  portEnvVar: string;  // The MICROSERVICE_*_PORT env var name
-  hostEnvVar: string;  // The MICROSERVICE_*_HOST env var name
+  portRange?: { from: number; to: number };  // Ports to lease from (default: 1000 from basePort)
+  command: string[];  // Argv; config files may give one string, split like a shell would
+  env?: Record<string, string>;  // Env var templates, on top of the global ones
+  args?: string[];               // Argument templates appended to the command
+  dependsOn?: string[];  // Apps that must be ready before this one starts
+  readiness?: ReadinessProbe;  // Defaults to a TCP connect on the app's port
+  restart?: RestartPolicy;     // Defaults to never restarting
 }
 
-// Additional env vars that need port-based URL overrides
-export const URL_ENV_VARS = {
-  // NEXT_PUBLIC_API_BASE_URL -> http://localhost:{api_port}
-  NEXT_PUBLIC_API_BASE_URL: 'api',
-} as const;
+// Built-in profile that starts every app; can't be redefined in config
+export const ALL_PROFILE = 'all';
 
-export const PORT_OFFSET = 100;
+export interface DiscoveryConfig {
+  // Root repository whose `git worktree list` defines the project slots
+  root: string;
+}
 
-export const PROJECTS: Project[] = [
-  {
-    name: 'cubic',
-    alias: 'cubic',
-    path: '/Users/guypinchuk/Projects/cubic',
-    index: 0,
-  },
-  {
-    name: 'cubic-alt',
-    alias: 'alt',
-    path: '/Users/guypinchuk/Projects/cubic-alt',
-    index: 1,
-  },
-  {
-    name: 'cubic-alt-2',
-    alias: 'alt-2',
-    path: '/Users/guypinchuk/Projects/cubic-alt-2',
-    index: 2,
-  },
-];
-
-export const APPS: AppConfig[] = [
-  {
-    name: 'api',
-    basePort: 5555,
-    command: 'nx serve api',
-    portEnvVar: 'MICROSERVICE_API_PORT',
-    hostEnvVar: 'MICROSERVICE_API_HOST',
-  },
-  {
-    name: 'client-app',
-    basePort: 4200,
-    command: 'nx serve client-app',
-    portEnvVar: 'MICROSERVICE_CLIENT_APP_PORT',
-    hostEnvVar: 'MICROSERVICE_CLIENT_APP_HOST',
-  },
-  {
-    name: 'mycelium',
-    basePort: 4201,
-    command: 'nx serve mycelium',
-    portEnvVar: 'MICROSERVICE_MYCELIUM_PORT',
-    hostEnvVar: 'MICROSERVICE_MYCELIUM_HOST',
+export interface CubicliConfig {
+  portOffset: number;
+  // Default secrets provider for projects without their own settings
+  secrets: SecretsSettings;
+  // Config names to cycle through (Doppler configs, .env.<config> suffixes, ...)
+  dopplerConfigs: string[];
+  // Env var templates set for every app, e.g. "{{apps.api.url}}" or
+  // "cubic_{{project.index}}". See templates.ts for the variables.
+  env: Record<string, string>;
+  // Named subsets of apps to start, e.g. { "backend": ["api"] }. Apps the listed
+  // ones depend on are started too.
+  profiles: Record<string, string[]>;
+  // When set, projects are discovered from git worktrees and `projects` only overrides names/aliases
+  discovery: DiscoveryConfig | null;
+  projects: Project[];
+  apps: AppConfig[];
+}
+
+export const DEFAULT_CONFIG: CubicliConfig = {
+  portOffset: 100,
+  secrets: { provider: 'doppler' },
+  dopplerConfigs: ['dev', 'dev_guy'],
+  env: {
+    MICROSERVICE_API_PORT: '{{apps.api.port}}',
+    MICROSERVICE_API_HOST: '{{apps.api.host}}',
+    MICROSERVICE_CLIENT_APP_PORT: '{{apps.client-app.port}}',
+    MICROSERVICE_CLIENT_APP_HOST: '{{apps.client-app.host}}',
+    MICROSERVICE_MYCELIUM_PORT: '{{apps.mycelium.port}}',
+    MICROSERVICE_MYCELIUM_HOST: '{{apps.mycelium.host}}',
+    NEXT_PUBLIC_API_BASE_URL: '{{apps.api.url}}',
   },
-];
+  profiles: {},
+  discovery: null,
+  projects: [
+    {
+      name: 'cubic',
+      alias: 'cubic',
+      path: '/Users/guypinchuk/Projects/cubic',
+      index: 0,
+    },
+    {
+      name: 'cubic-alt',
+      alias: 'alt',
+      path: '/Users/guypinchuk/Projects/cubic-alt',
+      index: 1,
+    },
+    {
+      name: 'cubic-alt-2',
+      alias: 'alt-2',
+      path: '/Users/guypinchuk/Projects/cubic-alt-2',
+      index: 2,
+    },
+  ],
+  apps: [
+    {
+      name: 'api',
+      basePort: 5555,
+      command: ['nx', 'serve', 'api'],
+      readiness: { type: 'tcp' },
+      restart: { policy: 'on-failure' },
+    },
+    {
+      name: 'client-app',
+      basePort: 4200,
+      command: ['nx', 'serve', 'client-app'],
+      args: ['--port', '{{port}}'],
+      dependsOn: ['api'],
+      readiness: { type: 'log', pattern: 'Ready in' },
+      restart: { policy: 'on-failure' },
+    },
+    {
+      name: 'mycelium',
+      basePort: 4201,
+      command: ['nx', 'serve', 'mycelium'],
+      args: ['--port', '{{port}}'],
+      dependsOn: ['api'],
+      readiness: { type: 'log', pattern: 'Ready in' },
+      restart: { policy: 'on-failure' },
+    },
+  ],
+};
 
 /**
- * Get the actual port for an app running in a specific project
- * Formula: actualPort = basePort + (projectIndex × PORT_OFFSET)
+ * Get the preferred port for an app running in a specific project. The port it
+ * actually gets is leased in services/ports.ts and may differ if this one is taken.
+ * Formula: preferredPort = basePort + (projectIndex × portOffset)
  */
 export function getPortForApp(app: AppConfig, project: Project): number {
-  return app.basePort + (project.index * PORT_OFFSET);
+  return app.basePort + (project.index * getConfig().portOffset);
 }
 
 /**
- * Get all ports that would be used by a project
+ * Names of all profiles, starting with the built-in "all"
  */
-export function getProjectPorts(project: Project): number[] {
-  return APPS.map(app => getPortForApp(app, project));
+export function getProfileNames(): string[] {
+  return [ALL_PROFILE, ...Object.keys(getConfig().profiles)];
 }
 
-export const DOPPLER_CONFIGS = ['dev', 'dev_guy'] as const;
-export type DopplerConfig = (typeof DOPPLER_CONFIGS)[number];
+/**
+ * Apps a profile starts, including their dependencies, in config order.
+ * Unknown profiles (e.g. one removed from the config since) start every app.
+ */
+export function getProfileApps(profile: string = ALL_PROFILE): AppConfig[] {
+  const { apps, profiles } = getConfig();
+  const names = profiles[profile];
+  if (!names) return apps;
+
+  const wanted = new Set<string>();
+  for (const app of apps.filter(a => names.includes(a.name))) {
+    wanted.add(app.name);
+    for (const dep of getTransitiveDependencies(app, apps)) {
+      wanted.add(dep.name);
+    }
+  }
+  return apps.filter(app => wanted.has(app.name));
+}
 
 export const STATE_DIR = `${process.env.HOME}/.cubicli`;
 export const STATE_FILE = `${STATE_DIR}/state.json`;
+export const STATE_LOCK_FILE = `${STATE_DIR}/state.lock`;
+export const INSTANCE_LOCK_FILE = `${STATE_DIR}/instance.lock`;
 export const LOG_DIR = `${STATE_DIR}/logs`;
+export const CONFIG_FILE = `${STATE_DIR}/config.json`;
+export const LOCAL_CONFIG_FILE = '.cubicli.json';
+export const SUPERVISOR_SOCKET = `${STATE_DIR}/supervisor.sock`;
+export const SUPERVISOR_LOG_FILE = `${LOG_DIR}/supervisor.log`;
+
+/**
+ * The file an app's output goes to; apps write to it directly
+ */
+export function getLogFilePath(projectAlias: string, appName: string): string {
+  return `${LOG_DIR}/${projectAlias}-${appName}.log`;
+}
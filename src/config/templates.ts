@@ -0,0 +1,59 @@
+import { getConfig } from './loader';
+import type { AppConfig, Project } from './projects';
+
+// {{port}}, {{apps.api.url}}, {{project.index}}, ... (whitespace inside the braces is allowed)
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z0-9_.-]+)\s*\}\}/g;
+
+const APP_FIELDS = ['port', 'host', 'url'];
+const PROJECT_FIELDS = ['name', 'alias', 'index', 'path'];
+
+/**
+ * Find the first variable in a template that no app could resolve, e.g. a typo
+ * or an app that doesn't exist
+ */
+export function findUnknownVariable(template: string, appNames: Set<string>): string | undefined {
+  for (const [, name] of template.matchAll(VARIABLE_PATTERN)) {
+    const parts = name.split('.');
+    const known =
+      (parts.length === 1 && APP_FIELDS.includes(parts[0])) ||
+      (parts.length === 2 && parts[0] === 'project' && PROJECT_FIELDS.includes(parts[1])) ||
+      (parts.length === 3 && parts[0] === 'apps' && appNames.has(parts[1]) && APP_FIELDS.includes(parts[2]));
+    if (!known) return name;
+  }
+  return undefined;
+}
+
+/**
+ * Values for the template variables of an app running in a project:
+ * its own port/host/url, every app's under apps.<name>, and the project's.
+ * `ports` holds the port assigned to each app of the project.
+ */
+export function getTemplateVariables(app: AppConfig, project: Project, ports: Record<string, number>): Record<string, string> {
+  const appVariables = (prefix: string, target: AppConfig): Record<string, string> => {
+    const port = ports[target.name];
+    return {
+      [`${prefix}port`]: String(port),
+      [`${prefix}host`]: 'http://localhost',
+      [`${prefix}url`]: `http://localhost:${port}`,
+    };
+  };
+
+  const variables: Record<string, string> = {
+    ...appVariables('', app),
+    'project.name': project.name,
+    'project.alias': project.alias,
+    'project.index': String(project.index),
+    'project.path': project.path,
+  };
+  for (const other of getConfig().apps) {
+    Object.assign(variables, appVariables(`apps.${other.name}.`, other));
+  }
+  return variables;
+}
+
+/**
+ * Replace {{variable}} placeholders; unknown variables are left as written
+ */
+export function renderTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(VARIABLE_PATTERN, (match, name: string) => variables[name] ?? match);
+}
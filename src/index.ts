@@ -1,23 +1,40 @@
 #!/usr/bin/env bun
 
 import { TUIApp } from './ui/app';
+import { ConfigError, getConfigWarnings, loadConfig } from './config/loader';
+import { runCommand } from './cli';
+import { connectToSupervisor } from './supervisor/client';
+import { runSupervisor } from './supervisor/server';
+import { stateStore } from './services/state-store';
+import { takeStateNotices } from './services/state';
+import { acquireInstanceLock, TAKEOVER_SIGNAL } from './services/instance-lock';
 
 let isShuttingDown = false;
 
-async function shutdown(app: TUIApp, exitCode = 0): Promise<void> {
+async function shutdown(app: TUIApp, exitCode = 0, message?: string): Promise<void> {
   if (isShuttingDown) return;
   isShuttingDown = true;
 
   await app.stop();
+  if (message) {
+    console.log(message);
+  }
   process.exit(exitCode);
 }
 
-async function main(): Promise<void> {
-  const app = new TUIApp();
+async function runTUI(): Promise<void> {
+  const supervisor = await connectToSupervisor();
+  // Null when no other dashboard is open
+  const instanceHolder = await acquireInstanceLock();
+  const app = new TUIApp(supervisor, instanceHolder);
+
+  // Another window shut the supervisor down, or it died
+  supervisor.setDisconnectHandler(() => shutdown(app, 0, 'cubicli supervisor stopped'));
 
   // Handle process signals
   process.on('SIGINT', () => shutdown(app, 0));
   process.on('SIGTERM', () => shutdown(app, 0));
+  process.on(TAKEOVER_SIGNAL, () => shutdown(app, 0, 'cubicli was taken over by another window'));
 
   // Handle uncaught errors
   process.on('uncaughtException', async (err) => {
@@ -33,7 +50,34 @@ async function main(): Promise<void> {
   await app.start();
 }
 
+async function main(): Promise<void> {
+  // Load config before touching the terminal so errors stay readable
+  loadConfig();
+  for (const warning of getConfigWarnings()) {
+    console.warn(`cubicli: ${warning}`);
+  }
+
+  const [command, ...args] = process.argv.slice(2);
+  if (command === undefined) {
+    await runTUI();
+  } else if (command === 'supervisor') {
+    await runSupervisor();
+  } else {
+    const exitCode = await runCommand(command, args);
+    // Write any state changes still waiting, e.g. newly assigned project indices
+    await stateStore.close();
+    for (const notice of takeStateNotices()) {
+      console.error(`cubicli: ${notice}`);
+    }
+    process.exit(exitCode);
+  }
+}
+
 main().catch(async (err) => {
+  if (err instanceof ConfigError) {
+    console.error(`Failed to start cubicli: ${err.message}`);
+    process.exit(1);
+  }
   console.error('Failed to start cubicli:', err);
   process.exit(1);
 });
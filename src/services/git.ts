@@ -49,6 +49,88 @@ export async function getAllBranches(projectPath: string): Promise<string[]> {
 
   return output
     .split('\n')
-    .map(line => line.replace(/^\*?\s+/, '').trim())
-    .filter(Boolean);
+    // "*" marks the current branch, "+" a branch checked out in another worktree
+    .map(line => line.replace(/^[*+]?\s+/, '').trim())
+    .filter(line => line && !line.includes(' -> '));
+}
+
+export interface Worktree {
+  path: string;
+  branch: string | null;  // null when HEAD is detached
+  isBare: boolean;
+}
+
+/**
+ * List all worktrees of a repository via `git worktree list --porcelain`
+ */
+export async function listWorktrees(rootPath: string): Promise<Worktree[]> {
+  const proc = Bun.spawn({
+    cmd: ['git', 'worktree', 'list', '--porcelain'],
+    cwd: rootPath,
+    stdout: 'pipe',
+    stderr: 'pipe',
+  });
+
+  const output = await new Response(proc.stdout).text();
+  const exitCode = await proc.exited;
+  if (exitCode !== 0) return [];
+
+  // Porcelain output is one block per worktree, separated by blank lines
+  const worktrees: Worktree[] = [];
+  for (const block of output.split('\n\n')) {
+    let worktree: Worktree | null = null;
+    for (const line of block.split('\n')) {
+      if (line.startsWith('worktree ')) {
+        worktree = { path: line.slice('worktree '.length), branch: null, isBare: false };
+      } else if (worktree && line.startsWith('branch ')) {
+        worktree.branch = line.slice('branch '.length).replace(/^refs\/heads\//, '');
+      } else if (worktree && line === 'bare') {
+        worktree.isBare = true;
+      }
+    }
+    if (worktree) worktrees.push(worktree);
+  }
+
+  return worktrees;
+}
+
+async function runGit(cwd: string, args: string[]): Promise<void> {
+  const proc = Bun.spawn({
+    cmd: ['git', ...args],
+    cwd,
+    stdout: 'pipe',
+    stderr: 'pipe',
+  });
+
+  const stderr = await new Response(proc.stderr).text();
+  const exitCode = await proc.exited;
+  if (exitCode !== 0) {
+    throw new Error(stderr.trim().split('\n').pop() || `git ${args[0]} failed`);
+  }
+}
+
+/**
+ * Check out a branch into a new worktree. Remote branches ("remotes/origin/foo")
+ * get a local tracking branch; unknown names create a new branch from HEAD.
+ */
+export async function addWorktree(rootPath: string, worktreePath: string, branch: string): Promise<void> {
+  const branches = await getAllBranches(rootPath);
+  const remoteMatch = branch.match(/^remotes\/([^/]+)\/(.+)$/);
+
+  if (remoteMatch) {
+    const localName = remoteMatch[2];
+    if (branches.includes(localName)) {
+      await runGit(rootPath, ['worktree', 'add', worktreePath, localName]);
+    } else {
+      await runGit(rootPath, ['worktree', 'add', '--track', '-b', localName, worktreePath, `${remoteMatch[1]}/${localName}`]);
+    }
+  } else if (branches.includes(branch)) {
+    await runGit(rootPath, ['worktree', 'add', worktreePath, branch]);
+  } else {
+    await runGit(rootPath, ['worktree', 'add', '-b', branch, worktreePath]);
+  }
+}
+
+export async function removeWorktree(rootPath: string, worktreePath: string): Promise<void> {
+  await runGit(rootPath, ['worktree', 'remove', worktreePath]);
 }
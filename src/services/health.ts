@@ -0,0 +1,79 @@
+import type { ReadinessProbe } from '../config/projects';
+
+export const DEFAULT_PROBE: ReadinessProbe = { type: 'tcp' };
+export const DEFAULT_PROBE_INTERVAL_MS = 1000;
+export const DEFAULT_PROBE_TIMEOUT_MS = 120_000;
+
+// Timeout for a single connect or request
+const CHECK_TIMEOUT_MS = 2000;
+
+/**
+ * Try to open a TCP connection to a local port
+ */
+function connectTcp(hostname: string, port: number, timeoutMs: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    let settled = false;
+    const done = (result: boolean) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      resolve(result);
+    };
+    const timer = setTimeout(() => done(false), timeoutMs);
+
+    Bun.connect({
+      hostname,
+      port,
+      socket: {
+        open(socket) {
+          socket.end();
+          done(true);
+        },
+        data() {},
+        error() {
+          done(false);
+        },
+        connectError() {
+          done(false);
+        },
+      },
+    }).catch(() => done(false));
+  });
+}
+
+/**
+ * Check whether anything accepts TCP connections on a local port (IPv4 or IPv6)
+ */
+export async function checkTcp(port: number, timeoutMs = CHECK_TIMEOUT_MS): Promise<boolean> {
+  return (await connectTcp('127.0.0.1', port, timeoutMs)) || (await connectTcp('::1', port, timeoutMs));
+}
+
+/**
+ * Check whether a local HTTP GET returns the expected status
+ */
+export async function checkHttp(port: number, path = '/', expectedStatus = 200): Promise<boolean> {
+  try {
+    const response = await fetch(`http://localhost:${port}${path}`, {
+      redirect: 'manual',
+      signal: AbortSignal.timeout(CHECK_TIMEOUT_MS),
+    });
+    return response.status === expectedStatus;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Run one check of a readiness probe. Log probes are matched as lines arrive,
+ * so the caller passes whether the pattern has been seen.
+ */
+export async function runProbe(probe: ReadinessProbe, port: number, logMatched: boolean): Promise<boolean> {
+  switch (probe.type) {
+    case 'tcp':
+      return checkTcp(port);
+    case 'http':
+      return checkHttp(port, probe.path, probe.expectedStatus);
+    case 'log':
+      return logMatched;
+  }
+}
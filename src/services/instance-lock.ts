@@ -0,0 +1,106 @@
+import { readFile, rm, writeFile } from 'fs/promises';
+import { INSTANCE_LOCK_FILE } from '../config/projects';
+import { ensureStateDir, getProcessIdentity, isSameProcess, type ProcessIdentity } from './state';
+
+const TAKEOVER_TIMEOUT_MS = 5000;
+const LOCK_POLL_MS = 50;
+
+// Sent to the dashboard holding the lock when another one takes over
+export const TAKEOVER_SIGNAL = 'SIGUSR2';
+
+/**
+ * The dashboard in control didn't close when asked to
+ */
+export class TakeoverError extends Error {
+  constructor(public readonly pid: number) {
+    super(`cubicli in pid ${pid} did not close; quit it there or try again`);
+    this.name = 'TakeoverError';
+  }
+}
+
+/**
+ * The dashboard holding the instance lock
+ */
+export interface InstanceLockHolder {
+  pid: number;
+  identity?: ProcessIdentity;
+}
+
+async function readHolder(): Promise<InstanceLockHolder | null> {
+  try {
+    const holder = JSON.parse(await readFile(INSTANCE_LOCK_FILE, 'utf-8')) as InstanceLockHolder;
+    return typeof holder.pid === 'number' ? holder : null;
+  } catch {
+    return null; // Missing, or not written yet
+  }
+}
+
+async function writeLock(flag: 'wx' | 'w'): Promise<void> {
+  const holder: InstanceLockHolder = {
+    pid: process.pid,
+    identity: (await getProcessIdentity(process.pid)) ?? undefined,
+  };
+  await writeFile(INSTANCE_LOCK_FILE, JSON.stringify(holder), { flag });
+}
+
+/**
+ * Claim the dashboard for this process, so only one window controls the
+ * supervisor at a time. Returns null once claimed, or the live dashboard that
+ * already has it. Locks left by dead dashboards are taken over.
+ */
+export async function acquireInstanceLock(): Promise<InstanceLockHolder | null> {
+  await ensureStateDir();
+  let waited = false;
+  for (;;) {
+    try {
+      await writeLock('wx');
+      return null;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+    }
+
+    const holder = await readHolder();
+    if (!holder && !waited) {
+      // Possibly created but not written yet; give its owner a moment
+      waited = true;
+      await Bun.sleep(LOCK_POLL_MS);
+      continue;
+    }
+    if (holder && (await isSameProcess(holder.pid, holder.identity))) {
+      return holder;
+    }
+    await rm(INSTANCE_LOCK_FILE, { force: true });
+  }
+}
+
+/**
+ * Ask the dashboard holding the lock to exit and claim the lock once it has.
+ * Throws TakeoverError if it is still running after a timeout.
+ */
+export async function takeOverInstanceLock(holder: InstanceLockHolder): Promise<void> {
+  try {
+    process.kill(holder.pid, TAKEOVER_SIGNAL);
+  } catch {
+    // Already gone
+  }
+
+  const deadline = Date.now() + TAKEOVER_TIMEOUT_MS;
+  while (Date.now() < deadline && (await readHolder())?.pid === holder.pid) {
+    await Bun.sleep(LOCK_POLL_MS);
+  }
+
+  // Still holding it; only a dead holder's lock may be overwritten
+  if ((await readHolder())?.pid === holder.pid && (await isSameProcess(holder.pid, holder.identity))) {
+    throw new TakeoverError(holder.pid);
+  }
+  await writeLock('w');
+}
+
+/**
+ * Give up the lock, unless another dashboard has taken it over since
+ */
+export async function releaseInstanceLock(): Promise<void> {
+  if ((await readHolder())?.pid === process.pid) {
+    await rm(INSTANCE_LOCK_FILE, { force: true });
+  }
+}
@@ -0,0 +1,112 @@
+import { open, stat } from 'fs/promises';
+
+const POLL_INTERVAL_MS = 250;
+const READ_CHUNK_BYTES = 64 * 1024;
+
+/**
+ * Follow a log file that another process appends to, emitting complete lines.
+ * Works the same whether the writer was spawned by this process or not.
+ */
+export class LogTail {
+  private offset = 0;
+  private remainder = '';
+  private decoder = new TextDecoder();
+  private timer?: Timer;
+  private reading?: Promise<void>;
+
+  constructor(
+    private readonly path: string,
+    private readonly onLine: (line: string) => void
+  ) {}
+
+  /**
+   * Start following from the given byte offset, or the current end of the file
+   */
+  async start(offset?: number): Promise<void> {
+    if (offset !== undefined) {
+      this.offset = offset;
+    } else {
+      try {
+        this.offset = (await stat(this.path)).size;
+      } catch {
+        this.offset = 0; // File doesn't exist yet
+      }
+    }
+    this.timer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+  }
+
+  /**
+   * Stop following. Pending output can be read first with drain().
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Read everything written so far, including a final line without a newline
+   */
+  async drain(): Promise<void> {
+    await this.reading;
+    await this.poll();
+    if (this.remainder.trim()) {
+      this.onLine(this.remainder);
+    }
+    this.remainder = '';
+  }
+
+  private poll(): Promise<void> {
+    if (!this.reading) {
+      this.reading = this.read().finally(() => {
+        this.reading = undefined;
+      });
+    }
+    return this.reading;
+  }
+
+  private async read(): Promise<void> {
+    let size: number;
+    try {
+      size = (await stat(this.path)).size;
+    } catch {
+      return;
+    }
+
+    // File was truncated or cleared - continue from its new end
+    if (size < this.offset) {
+      this.offset = size;
+      this.remainder = '';
+    }
+    if (size === this.offset) return;
+
+    try {
+      const handle = await open(this.path, 'r');
+      try {
+        while (this.offset < size) {
+          const length = Math.min(READ_CHUNK_BYTES, size - this.offset);
+          const buffer = Buffer.alloc(length);
+          const { bytesRead } = await handle.read(buffer, 0, length, this.offset);
+          if (bytesRead === 0) break;
+          this.offset += bytesRead;
+          this.emit(this.decoder.decode(buffer.subarray(0, bytesRead), { stream: true }));
+        }
+      } finally {
+        await handle.close();
+      }
+    } catch {
+      // File removed between stat and open
+    }
+  }
+
+  private emit(chunk: string): void {
+    const lines = (this.remainder + chunk).split('\n');
+    this.remainder = lines.pop() || '';
+    for (const line of lines) {
+      if (line.trim()) {
+        this.onLine(line);
+      }
+    }
+  }
+}
@@ -0,0 +1,286 @@
+import { getConfig } from '../config/loader';
+import { getPortForApp, type AppConfig, type Project } from '../config/projects';
+import {
+  findLiveProcesses,
+  getPidsOnPort,
+  getProcessDetails,
+  isPortActuallyFree,
+  isPortInUse,
+  killProcess,
+  type AppState,
+  type ProcessDetails,
+} from './state';
+import { stateStore } from './state-store';
+
+const DEFAULT_RANGE_SIZE = 1000;
+const MAX_ANCESTRY_DEPTH = 32;
+
+// What to do about a port held by a process cubicli didn't start
+export type PortResolution = 'kill' | 'skip' | 'move';
+export const PORT_RESOLUTIONS: PortResolution[] = ['move', 'skip', 'kill'];
+
+export interface PortOwner {
+  pid: number;
+  command: string;
+  cwd: string | null;
+  managedBy: string | null;  // "projectAlias:appName" when it belongs to a cubicli app
+}
+
+export interface PortConflict {
+  app: string;
+  port: number;
+  owners: PortOwner[];
+}
+
+export class PortAllocationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PortAllocationError';
+  }
+}
+
+function makeLeaseKey(projectAlias: string, appName: string): string {
+  return `${projectAlias}:${appName}`;
+}
+
+/**
+ * Ports an app may lease: its configured range, or a block starting at its base port
+ */
+export function getPortRange(app: AppConfig): { from: number; to: number } {
+  return app.portRange ?? { from: app.basePort, to: Math.min(65535, app.basePort + DEFAULT_RANGE_SIZE - 1) };
+}
+
+/**
+ * The port an app of a project uses: its lease, or the preferred
+ * basePort + index × portOffset before it has one
+ */
+export function getAssignedPort(state: AppState, app: AppConfig, project: Project): number {
+  return state.portLeases?.[makeLeaseKey(project.alias, app.name)] ?? getPortForApp(app, project);
+}
+
+/**
+ * Assigned ports of every app in a project, keyed by app name
+ */
+export function getProjectPortMap(state: AppState, project: Project): Record<string, number> {
+  return Object.fromEntries(getConfig().apps.map(app => [app.name, getAssignedPort(state, app, project)]));
+}
+
+/**
+ * Whether a port can be handed to an app. Ports another process listens on
+ * belong to someone else and are skipped, never freed.
+ */
+async function isPortAvailable(port: number): Promise<boolean> {
+  return !(await isPortInUse(port)) && (await isPortActuallyFree(port));
+}
+
+/**
+ * PIDs of app processes that still run what cubicli started, mapped to their
+ * "projectAlias:appName". Stopped records and reused PIDs are left out, so
+ * their holders go through the conflict prompt instead of being killed.
+ */
+async function getRecordedPids(state: AppState): Promise<Map<number, string>> {
+  const live = await findLiveProcesses(state);
+  const recorded = new Map<number, string>();
+  for (const [projectAlias, projectState] of Object.entries(state.activeProjects)) {
+    for (const [appName, info] of Object.entries(projectState.processes)) {
+      if (live.has(info.pid)) {
+        recorded.set(info.pid, makeLeaseKey(projectAlias, appName));
+      }
+    }
+  }
+  return recorded;
+}
+
+/**
+ * Find the cubicli app a process belongs to, if any. Apps are spawned detached,
+ * so everything they start shares their process group even after the app itself
+ * has exited; otherwise walk up the parent chain.
+ */
+async function findManagingApp(details: ProcessDetails, recorded: Map<number, string>): Promise<string | null> {
+  const byGroup = recorded.get(details.pgid);
+  if (byGroup) return byGroup;
+
+  let current: ProcessDetails | null = details;
+  for (let depth = 0; current && depth < MAX_ANCESTRY_DEPTH; depth++) {
+    const app = recorded.get(current.pid);
+    if (app) return app;
+    if (current.ppid <= 1) break;
+    current = await getProcessDetails(current.ppid);
+  }
+  return null;
+}
+
+async function getPortOwners(port: number, recorded: Map<number, string>): Promise<PortOwner[]> {
+  const owners: PortOwner[] = [];
+  for (const pid of await getPidsOnPort(port)) {
+    const details = await getProcessDetails(pid);
+    if (!details) continue; // Exited meanwhile
+    owners.push({
+      pid,
+      command: details.command,
+      cwd: details.cwd,
+      managedBy: await findManagingApp(details, recorded),
+    });
+  }
+  return owners;
+}
+
+/**
+ * The port an app should keep or get first: its lease, else its preferred port
+ * if that is in range. Ports leased to other apps are never wanted.
+ */
+function getWantedPort(leases: Record<string, number>, key: string, taken: Set<number>, app: AppConfig, project: Project): number | undefined {
+  const current = leases[key];
+  if (current !== undefined && !taken.has(current)) return current;
+
+  const { from, to } = getPortRange(app);
+  const preferred = getPortForApp(app, project);
+  if (preferred >= from && preferred <= to && !taken.has(preferred)) return preferred;
+  return undefined;
+}
+
+function getOtherLeases(leases: Record<string, number>, key: string): Set<number> {
+  return new Set(Object.entries(leases).filter(([k]) => k !== key).map(([, port]) => port));
+}
+
+function isHeldByApp(state: AppState, project: Project, appName: string, port: number): boolean {
+  const info = state.activeProjects[project.alias]?.processes[appName];
+  return info !== undefined && info.status !== 'stopped' && info.port === port;
+}
+
+/**
+ * Find apps of a project whose port is held by a process that isn't theirs,
+ * so the user can decide what to do before anything is killed. Only `apps`
+ * are checked, e.g. those of the profile about to start.
+ */
+export async function findPortConflicts(project: Project, apps: AppConfig[] = getConfig().apps): Promise<PortConflict[]> {
+  const state = await stateStore.read();
+  const leases = { ...state.portLeases };
+  const recorded = await getRecordedPids(state);
+  const conflicts: PortConflict[] = [];
+
+  for (const app of apps) {
+    const key = makeLeaseKey(project.alias, app.name);
+    const port = getWantedPort(leases, key, getOtherLeases(leases, key), app, project);
+    if (port === undefined || isHeldByApp(state, project, app.name, port)) continue;
+
+    const owners = (await getPortOwners(port, recorded)).filter(owner => owner.managedBy !== key);
+    if (owners.length > 0) {
+      conflicts.push({ app: app.name, port, owners });
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * Pick ports for the given apps against `state`, stopping leftovers and
+ * resolving conflicts along the way. Returns the leases of these apps only.
+ */
+async function allocatePorts(
+  state: AppState,
+  project: Project,
+  apps: AppConfig[],
+  resolutions: Record<string, PortResolution>
+): Promise<{ leased: Record<string, number>; skipped: PortConflict[] }> {
+  const leases = { ...state.portLeases };
+  const recorded = await getRecordedPids(state);
+  const skipped: PortConflict[] = [];
+
+  for (const app of apps) {
+    const key = makeLeaseKey(project.alias, app.name);
+    const taken = getOtherLeases(leases, key);
+    const wanted = getWantedPort(leases, key, taken, app, project);
+
+    if (wanted !== undefined) {
+      if (leases[key] === wanted && isHeldByApp(state, project, app.name, wanted)) continue;
+
+      const owners = await getPortOwners(wanted, recorded);
+      await Promise.all(owners.filter(owner => owner.managedBy === key).map(owner => killProcess(owner.pid)));
+
+      const foreign = owners.filter(owner => owner.managedBy !== key);
+      const resolution = foreign.length > 0 ? resolutions[app.name] ?? 'move' : undefined;
+      if (resolution === 'skip') {
+        skipped.push({ app: app.name, port: wanted, owners: foreign });
+        continue;
+      }
+      if (resolution === 'kill') {
+        await Promise.all(foreign.map(owner => killProcess(owner.pid)));
+      }
+      if (resolution !== 'move' && (await isPortActuallyFree(wanted))) {
+        leases[key] = wanted;
+        continue;
+      }
+      taken.add(wanted);
+    }
+
+    const { from, to } = getPortRange(app);
+    let leased: number | undefined;
+    for (let port = from; leased === undefined && port <= to; port++) {
+      if (!taken.has(port) && (await isPortAvailable(port))) {
+        leased = port;
+      }
+    }
+
+    if (leased === undefined) {
+      throw new PortAllocationError(`no free port for ${app.name} in ${from}-${to}`);
+    }
+    leases[key] = leased;
+  }
+
+  const leased: Record<string, number> = {};
+  for (const app of apps) {
+    const key = makeLeaseKey(project.alias, app.name);
+    if (leases[key] !== undefined) leased[key] = leases[key];
+  }
+  return { leased, skipped };
+}
+
+/**
+ * Lease a port for the given apps of a project and persist the leases; other
+ * apps' ports are left alone. An app keeps its lease (or gets its preferred port)
+ * when that port is free; leftovers of the same app from an earlier run are
+ * stopped. Any other holder is only killed when `resolutions` says so for that
+ * app; by default the app moves to the first free port in its range that no
+ * other app has leased, or is skipped if asked to.
+ */
+export async function leaseProjectPorts(
+  project: Project,
+  apps: AppConfig[] = getConfig().apps,
+  resolutions: Record<string, PortResolution> = {}
+): Promise<{ ports: Record<string, number>; skipped: PortConflict[] }> {
+  for (;;) {
+    const { leased, skipped } = await allocatePorts(await stateStore.read(), project, apps, resolutions);
+
+    // Save under the state lock; if another process leased one of these ports
+    // while we were probing, allocate again against its leases
+    const latest = await stateStore.updateLocked((latest) => {
+      const others = new Set(Object.entries(latest.portLeases).filter(([key]) => !(key in leased)).map(([, port]) => port));
+      if (Object.values(leased).some(port => others.has(port))) return null;
+      latest.portLeases = { ...latest.portLeases, ...leased };
+      return latest;
+    });
+    if (latest) {
+      return { ports: getProjectPortMap(latest, project), skipped };
+    }
+  }
+}
+
+/**
+ * One line describing who holds a port, e.g. "pid 123 node server.js in ~/other"
+ */
+export function describePortOwner(owner: PortOwner): string {
+  const cwd = owner.cwd ? ` in ${owner.cwd}` : '';
+  const app = owner.managedBy ? ` (cubicli ${owner.managedBy})` : '';
+  return `pid ${owner.pid} ${owner.command}${cwd}${app}`;
+}
+
+/**
+ * Give up a project's leases, e.g. when its worktree is removed
+ */
+export async function releaseProjectPorts(projectAlias: string): Promise<void> {
+  await stateStore.update((state) => {
+    for (const app of getConfig().apps) {
+      delete state.portLeases?.[makeLeaseKey(projectAlias, app.name)];
+    }
+  });
+}
@@ -0,0 +1,70 @@
+import { readdir, readFile, readlink } from 'fs/promises';
+
+// Socket state in /proc/net/tcp{,6} meaning LISTEN
+const TCP_LISTEN = '0A';
+
+/**
+ * Inodes of sockets listening on a TCP port, from /proc/net/tcp and tcp6.
+ * Each line is "sl local_address rem_address st ... uid timeout inode", with
+ * the local address as hex "ADDR:PORT".
+ */
+async function getListeningInodes(port: number): Promise<Set<string>> {
+  const inodes = new Set<string>();
+  for (const file of ['/proc/net/tcp', '/proc/net/tcp6']) {
+    let content: string;
+    try {
+      content = await readFile(file, 'utf-8');
+    } catch {
+      continue; // No IPv6, for example
+    }
+
+    for (const line of content.split('\n').slice(1)) {
+      const fields = line.trim().split(/\s+/);
+      if (fields.length < 10 || fields[3] !== TCP_LISTEN) continue;
+      const localPort = parseInt(fields[1].split(':')[1], 16);
+      if (localPort === port) {
+        inodes.add(fields[9]);
+      }
+    }
+  }
+  return inodes;
+}
+
+/**
+ * PIDs with a listening socket on a TCP port, found by matching the socket
+ * inodes against every process's open file descriptors. Processes of other
+ * users can't be inspected and are missed.
+ */
+export async function getListeningPidsFromProc(port: number): Promise<number[]> {
+  const inodes = await getListeningInodes(port);
+  if (inodes.size === 0) return [];
+
+  const targets = new Set([...inodes].map(inode => `socket:[${inode}]`));
+  const pids: number[] = [];
+  for (const name of await readdir('/proc')) {
+    const pid = Number(name);
+    if (!Number.isInteger(pid)) continue;
+
+    let fds: string[];
+    try {
+      fds = await readdir(`/proc/${pid}/fd`);
+    } catch {
+      continue; // Exited, or not ours to read
+    }
+    for (const fd of fds) {
+      const link = await readlink(`/proc/${pid}/fd/${fd}`).catch(() => null);
+      if (link && targets.has(link)) {
+        pids.push(pid);
+        break;
+      }
+    }
+  }
+  return pids;
+}
+
+/**
+ * Working directory of a process, from /proc/<pid>/cwd
+ */
+export async function getCwdFromProc(pid: number): Promise<string | null> {
+  return readlink(`/proc/${pid}/cwd`).catch(() => null);
+}
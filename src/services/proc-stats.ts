@@ -0,0 +1,178 @@
+import { readdir, readFile } from 'fs/promises';
+import type { ProcessDetails, ProcessIdentity, ProcessStats, ProcessUsage } from './state';
+
+// Kernel clock ticks per second for /proc times (USER_HZ, 100 on every Linux architecture we run on)
+const CLOCK_TICKS = 100;
+
+interface ProcEntry {
+  pid: number;
+  ppid: number;
+  pgid: number;
+  comm: string;
+  cpuTicks: number;  // utime + stime
+  startTicks: number;  // Start time in clock ticks since boot
+}
+
+// Last CPU time seen per PID, to turn cumulative ticks into a percentage
+const previousSamples: Map<number, { cpuTicks: number; at: number }> = new Map();
+
+export function isProcAvailable(): boolean {
+  return process.platform === 'linux';
+}
+
+/**
+ * Parse /proc/<pid>/stat. The command name is in parentheses and may itself
+ * contain spaces or parentheses, so fields are counted from the last ")".
+ */
+function parseStat(pid: number, content: string): ProcEntry | null {
+  const open = content.indexOf('(');
+  const close = content.lastIndexOf(')');
+  if (open < 0 || close < open) return null;
+
+  // Fields after the name start at field 3 (state); ppid is field 4, pgrp 5, utime 14, stime 15, starttime 22
+  const fields = content.slice(close + 2).split(' ');
+  const utime = parseInt(fields[11], 10);
+  const stime = parseInt(fields[12], 10);
+  return {
+    pid,
+    ppid: parseInt(fields[1], 10),
+    pgid: parseInt(fields[2], 10),
+    comm: content.slice(open + 1, close),
+    cpuTicks: (utime || 0) + (stime || 0),
+    startTicks: parseInt(fields[19], 10),
+  };
+}
+
+async function readProcTable(): Promise<Map<number, ProcEntry>> {
+  const table = new Map<number, ProcEntry>();
+  for (const name of await readdir('/proc')) {
+    const pid = Number(name);
+    if (!Number.isInteger(pid)) continue;
+    try {
+      const entry = parseStat(pid, await readFile(`/proc/${pid}/stat`, 'utf-8'));
+      if (entry) table.set(pid, entry);
+    } catch {
+      // Exited while scanning
+    }
+  }
+  return table;
+}
+
+/**
+ * Resident memory in MB from /proc/<pid>/status (VmRSS is in kB)
+ */
+async function readMemory(pid: number): Promise<number> {
+  try {
+    const status = await readFile(`/proc/${pid}/status`, 'utf-8');
+    const match = status.match(/^VmRSS:\s+(\d+)\s+kB/m);
+    return match ? parseInt(match[1], 10) / 1024 : 0;
+  } catch {
+    return 0;
+  }
+}
+
+async function readCommand(entry: ProcEntry): Promise<string> {
+  try {
+    const cmdline = await readFile(`/proc/${entry.pid}/cmdline`, 'utf-8');
+    const command = cmdline.split('\0').filter(Boolean).join(' ');
+    return command || entry.comm;
+  } catch {
+    return entry.comm;
+  }
+}
+
+async function readEntry(pid: number): Promise<ProcEntry | null> {
+  try {
+    return parseStat(pid, await readFile(`/proc/${pid}/stat`, 'utf-8'));
+  } catch {
+    return null; // No such process
+  }
+}
+
+/**
+ * Parent, process group and command line of a process, or null if it doesn't exist
+ */
+export async function getProcDetails(pid: number): Promise<Omit<ProcessDetails, 'cwd'> | null> {
+  const entry = await readEntry(pid);
+  if (!entry) return null;
+  return { pid, ppid: entry.ppid, pgid: entry.pgid, command: await readCommand(entry) };
+}
+
+/**
+ * Boot time in epoch seconds, from the btime line of /proc/stat
+ */
+async function readBootTime(): Promise<number | null> {
+  const match = (await readFile('/proc/stat', 'utf-8')).match(/^btime\s+(\d+)/m);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * When a process started (epoch ms, at clock tick precision) and its command
+ * line, or null if it doesn't exist
+ */
+export async function getProcIdentity(pid: number): Promise<ProcessIdentity | null> {
+  const entry = await readEntry(pid);
+  const bootTime = await readBootTime();
+  if (!entry || bootTime === null || !Number.isFinite(entry.startTicks)) return null;
+
+  const startedAt = bootTime * 1000 + Math.round((entry.startTicks * 1000) / CLOCK_TICKS);
+  return { startTime: String(startedAt), command: await readCommand(entry) };
+}
+
+/**
+ * CPU and memory of each root PID together with all its descendants, from one
+ * scan of /proc. CPU% is measured since the previous call, so the first sample
+ * of a process reads 0.
+ */
+export async function getProcTreeStats(rootPids: number[]): Promise<Map<number, ProcessStats>> {
+  const table = await readProcTable();
+  const now = Date.now();
+
+  const children = new Map<number, number[]>();
+  for (const entry of table.values()) {
+    const siblings = children.get(entry.ppid) ?? [];
+    siblings.push(entry.pid);
+    children.set(entry.ppid, siblings);
+  }
+
+  const cpuPercent = (entry: ProcEntry): number => {
+    const previous = previousSamples.get(entry.pid);
+    if (!previous || now <= previous.at || entry.cpuTicks < previous.cpuTicks) return 0;
+    const seconds = (now - previous.at) / 1000;
+    return ((entry.cpuTicks - previous.cpuTicks) / CLOCK_TICKS / seconds) * 100;
+  };
+
+  const results = new Map<number, ProcessStats>();
+  for (const rootPid of rootPids) {
+    if (!table.has(rootPid)) continue;
+
+    // Breadth-first, so the root comes first in the breakdown
+    const processes: ProcessUsage[] = [];
+    const queue = [rootPid];
+    for (let pid = queue.shift(); pid !== undefined; pid = queue.shift()) {
+      const entry = table.get(pid);
+      if (!entry) continue;
+      processes.push({
+        pid,
+        command: await readCommand(entry),
+        cpu: cpuPercent(entry),
+        memory: await readMemory(pid),
+      });
+      queue.push(...(children.get(pid) ?? []));
+    }
+
+    results.set(rootPid, {
+      cpu: processes.reduce((sum, p) => sum + p.cpu, 0),
+      memory: processes.reduce((sum, p) => sum + p.memory, 0),
+      processes,
+    });
+  }
+
+  // Remember this scan for the next delta, forgetting processes that are gone
+  previousSamples.clear();
+  for (const entry of table.values()) {
+    previousSamples.set(entry.pid, { cpuTicks: entry.cpuTicks, at: now });
+  }
+
+  return results;
+}
@@ -1,10 +1,32 @@
 import treeKill from 'tree-kill';
-import { appendFile, readFile, writeFile, mkdir } from 'fs/promises';
-import { existsSync } from 'fs';
-import { APPS, LOG_DIR, PROJECTS, URL_ENV_VARS, getPortForApp, getProjectPorts, type AppConfig, type DopplerConfig, type Project } from '../config/projects';
-import { loadState, saveState, isProcessRunning, getProcessStats, ensurePortsAvailable, resetNxDaemon, isPortInUse, type AppState, type ProcessInfo, type ProcessStats, type ProjectState } from './state';
+import { appendFile, readFile, writeFile, mkdir, rm } from 'fs/promises';
+import { closeSync, existsSync, openSync } from 'fs';
+import { ALL_PROFILE, LOG_DIR, getLogFilePath, getProfileApps, type AppConfig, type Project, type RestartPolicy, type SecretsSelection } from '../config/projects';
+import { getConfig } from '../config/loader';
+import { getStartupLayers, getTransitiveDependencies } from '../config/dependencies';
+import { getTemplateVariables, renderTemplate } from '../config/templates';
+import { getProjects } from './projects';
+import { formatSecrets, prepareSecrets, resolveSecrets } from './secrets';
+import { LogTail } from './log-tail';
+import { describePortOwner, getProjectPortMap, leaseProjectPorts, type PortConflict, type PortResolution } from './ports';
+import { DEFAULT_PROBE, DEFAULT_PROBE_INTERVAL_MS, DEFAULT_PROBE_TIMEOUT_MS, runProbe } from './health';
+import { stateStore } from './state-store';
+import { recordCrash, isProcessRunning, isSameProcess, getProcessIdentity, getProcessStats, resetNxDaemon, isPortInUse, type AppState, type ProcessInfo, type ProcessStats, type ProjectState } from './state';
 
 const MAX_LOG_LINES = 10000;
+const READY_POLL_MS = 250;
+// Consecutive failed liveness checks before a ready app is marked unhealthy
+const UNHEALTHY_AFTER_FAILURES = 3;
+// Log lines kept with a crash record
+const CRASH_LOG_LINES = 50;
+
+const DEFAULT_RESTART_POLICY: Required<RestartPolicy> = {
+  policy: 'never',
+  maxRestarts: 5,
+  window: 60_000,
+  backoff: 1000,
+  maxBackoff: 30_000,
+};
 
 export interface LogBuffer {
   lines: string[];
@@ -16,6 +38,21 @@ function makeLogKey(projectAlias: string, appName: string): string {
   return `${projectAlias}:${appName}`;
 }
 
+type AppStatus = ProcessInfo['status'];
+
+// Stands in for the time of lines written before this process followed the file
+const UNKNOWN_TIME = '--:--:--';
+
+function withTimestamp(line: string, time: Date | null = new Date()): string {
+  const timestamp = time ? time.toLocaleTimeString('en-US', { hour12: false }) : UNKNOWN_TIME;
+  return `[${timestamp}] ${line}`;
+}
+
+// Isolate NX daemon per project to prevent conflicts when running multiple projects
+function getNxDaemonDir(projectAlias: string): string {
+  return `${LOG_DIR}/nx-daemon-${projectAlias}`;
+}
+
 export class ProcessManager {
   // Nested map: projectAlias -> appName -> subprocess
   private processes: Map<string, Map<string, Bun.Subprocess>> = new Map();
@@ -23,11 +60,25 @@ export class ProcessManager {
   private adoptedPids: Map<string, Map<string, number>> = new Map();
   // Log buffers keyed by "projectAlias:appName"
   private logBuffers: Map<string, LogBuffer> = new Map();
+  // Followers of the per-app log files that apps write to directly, keyed by "projectAlias:appName"
+  private logTails: Map<string, LogTail> = new Map();
   // Process stats keyed by "projectAlias:appName"
   private processStats: Map<string, ProcessStats> = new Map();
   // Port listening status keyed by "projectAlias:appName"
   private portListening: Map<string, boolean> = new Map();
+  // Health status of tracked apps keyed by "projectAlias:appName"
+  private appStatus: Map<string, AppStatus> = new Map();
+  // Compiled log readiness patterns, and apps whose pattern has matched, keyed by "projectAlias:appName"
+  private logProbes: Map<string, RegExp> = new Map();
+  private logProbeMatched: Set<string> = new Set();
+  // Apps being stopped on purpose, so their exit doesn't trigger a restart
+  private stopping: Set<string> = new Set();
+  // Automatic restart bookkeeping keyed by "projectAlias:appName"
+  private restartTimers: Map<string, Timer> = new Map();
+  private restartHistory: Map<string, number[]> = new Map();
+  private restartCounts: Map<string, number> = new Map();
   private onLogUpdate?: (projectAlias: string, appName: string, line: string, didShift: boolean) => void;
+  private onLogClear?: (projectAlias: string, appName: string) => void;
   private truncateCounter = 0;
 
   constructor() {
@@ -41,40 +92,65 @@ export class ProcessManager {
     }
   }
 
-  private getLogFilePath(projectAlias: string, appName: string): string {
-    return `${LOG_DIR}/${projectAlias}-${appName}.log`;
+  /**
+   * Follow an app's log file into its log buffer, timestamping lines as they
+   * arrive. Starts at `offset`, or else the current end of the file.
+   */
+  private async startTail(projectAlias: string, appName: string, offset?: number): Promise<void> {
+    const key = makeLogKey(projectAlias, appName);
+    if (this.logTails.has(key)) return;
+
+    const tail = new LogTail(getLogFilePath(projectAlias, appName), (line) => {
+      this.addLogLine(projectAlias, appName, withTimestamp(line));
+    });
+    this.logTails.set(key, tail);
+    await tail.start(offset);
   }
 
-  private async appendToLogFile(projectAlias: string, appName: string, line: string): Promise<void> {
-    try {
-      await this.ensureLogDir();
-      await appendFile(this.getLogFilePath(projectAlias, appName), line + '\n');
-    } catch {
-      // Ignore write errors
-    }
+  private async stopTail(projectAlias: string, appName: string): Promise<void> {
+    const key = makeLogKey(projectAlias, appName);
+    const tail = this.logTails.get(key);
+    if (!tail) return;
+
+    this.logTails.delete(key);
+    await tail.drain();
+    tail.stop();
   }
 
-  private async loadLogsFromFile(projectAlias: string, appName: string): Promise<void> {
+  /**
+   * Fill an app's log buffer from its log file, formatted like followed lines
+   * but without a known time. Returns the byte offset to follow the file from.
+   */
+  private async loadLogsFromFile(projectAlias: string, appName: string): Promise<number | undefined> {
     try {
-      const filePath = this.getLogFilePath(projectAlias, appName);
-      if (!existsSync(filePath)) return;
+      const filePath = getLogFilePath(projectAlias, appName);
+      if (!existsSync(filePath)) return undefined;
 
-      const content = await readFile(filePath, 'utf-8');
-      const lines = content.split('\n').filter(line => line.trim());
+      const content = await readFile(filePath);
+      const text = content.toString('utf-8');
+      // A partial last line is left for the tail to finish
+      const complete = text.slice(0, text.lastIndexOf('\n') + 1);
+      const lines = complete.split('\n').filter(line => line.trim());
 
       // Take only the last MAX_LOG_LINES
-      const recentLines = lines.slice(-MAX_LOG_LINES);
+      const recentLines = lines.slice(-MAX_LOG_LINES).map(line => withTimestamp(line, null));
 
       const key = makeLogKey(projectAlias, appName);
       this.logBuffers.set(key, { lines: recentLines, searchMatches: [] });
+      return Buffer.byteLength(complete);
     } catch {
-      // Ignore read errors
+      return undefined; // Ignore read errors
     }
   }
 
+  /**
+   * Cut a log file down to its last lines. Rewriting it would drop output of an
+   * app appending meanwhile, so files of running apps are left alone.
+   */
   private async truncateLogFile(projectAlias: string, appName: string): Promise<void> {
+    if (this.isAppRunning(projectAlias, appName)) return;
     try {
-      const filePath = this.getLogFilePath(projectAlias, appName);
+      const filePath = getLogFilePath(projectAlias, appName);
       if (!existsSync(filePath)) return;
 
       const content = await readFile(filePath, 'utf-8');
@@ -90,12 +166,18 @@ export class ProcessManager {
   }
 
   async updateStats(): Promise<void> {
-    const state = await loadState();
+    const state = await stateStore.read();
+    const isLive = (info: ProcessInfo) => info.status === 'running' || info.status === 'starting' || info.status === 'unhealthy';
+
+    // One sample for every live app, so CPU deltas cover the same interval
+    const pids = Object.values(state.activeProjects).flatMap(p => Object.values(p.processes).filter(isLive).map(info => info.pid));
+    const allStats = await getProcessStats(pids);
+
     for (const [projectAlias, projectState] of Object.entries(state.activeProjects)) {
       for (const [appName, info] of Object.entries(projectState.processes)) {
         const key = makeLogKey(projectAlias, appName);
-        if (info.status === 'running' || info.status === 'starting') {
-          const stats = await getProcessStats(info.pid);
+        if (isLive(info)) {
+          const stats = allStats.get(info.pid);
           if (stats) {
             this.processStats.set(key, stats);
           }
@@ -112,8 +194,9 @@ export class ProcessManager {
     this.truncateCounter++;
     if (this.truncateCounter >= 60) {
       this.truncateCounter = 0;
-      for (const project of PROJECTS) {
-        for (const app of APPS) {
+      const { apps } = getConfig();
+      for (const project of getProjects()) {
+        for (const app of apps) {
           await this.truncateLogFile(project.alias, app.name);
         }
       }
@@ -126,17 +209,27 @@ export class ProcessManager {
   }
 
   async adoptRunningProcesses(): Promise<void> {
-    const state = await loadState();
+    const state = await stateStore.read();
     for (const [projectAlias, projectState] of Object.entries(state.activeProjects)) {
       for (const [appName, info] of Object.entries(projectState.processes)) {
-        if (info.status === 'running' && isProcessRunning(info.pid)) {
-          // Track this PID as adopted (we can kill it but can't read its output)
+        // The PID may have been reused by an unrelated process since it was recorded
+        if ((info.status === 'running' || info.status === 'unhealthy') && (await isSameProcess(info.pid, info.identity))) {
+          // Track this PID as adopted (we can kill it; it keeps writing to its log file)
           if (!this.adoptedPids.has(projectAlias)) {
             this.adoptedPids.set(projectAlias, new Map());
           }
           this.adoptedPids.get(projectAlias)!.set(appName, info.pid);
-          // Load recent logs from file
-          await this.loadLogsFromFile(projectAlias, appName);
+          // Load recent logs from file, then follow new output
+          const offset = await this.loadLogsFromFile(projectAlias, appName);
+          await this.startTail(projectAlias, appName, offset);
+
+          // Keep checking liveness; it already passed readiness in the previous session
+          const app = getConfig().apps.find((a) => a.name === appName);
+          const project = getProjects().find((p) => p.alias === projectAlias);
+          this.appStatus.set(makeLogKey(projectAlias, appName), info.status);
+          if (app && project) {
+            this.monitorHealth(app, project, info.pid, info.port, true);
+          }
         }
       }
     }
@@ -146,16 +239,35 @@ export class ProcessManager {
     this.onLogUpdate = handler;
   }
 
+  setLogClearHandler(handler: (projectAlias: string, appName: string) => void): void {
+    this.onLogClear = handler;
+  }
+
   getLogBuffer(projectAlias: string, appName: string): LogBuffer {
     const key = makeLogKey(projectAlias, appName);
     return this.logBuffers.get(key) || { lines: [], searchMatches: [] };
   }
 
-  clearLogBuffer(projectAlias: string, appName: string): void {
+  async clearLogBuffer(projectAlias: string, appName: string): Promise<void> {
     const key = makeLogKey(projectAlias, appName);
     this.logBuffers.set(key, { lines: [], searchMatches: [] });
+    this.onLogClear?.(projectAlias, appName);
     // Also clear the log file
-    writeFile(this.getLogFilePath(projectAlias, appName), '').catch(() => {});
+    await writeFile(getLogFilePath(projectAlias, appName), '').catch(() => {});
+  }
+
+  /**
+   * Delete a project's log files, log buffers and nx daemon directory
+   */
+  async removeProjectFiles(projectAlias: string): Promise<void> {
+    for (const app of getConfig().apps) {
+      await this.stopTail(projectAlias, app.name);
+      this.logBuffers.delete(makeLogKey(projectAlias, app.name));
+      this.onLogClear?.(projectAlias, app.name);
+      this.processStats.delete(makeLogKey(projectAlias, app.name));
+      await rm(getLogFilePath(projectAlias, app.name), { force: true });
+    }
+    await rm(getNxDaemonDir(projectAlias), { recursive: true, force: true });
   }
 
   private addLogLine(projectAlias: string, appName: string, line: string): boolean {
@@ -175,8 +287,13 @@ export class ProcessManager {
       didShift = true;
     }
 
-    // Persist to file (fire and forget)
-    this.appendToLogFile(projectAlias, appName, line);
+    // Match log readiness probes (ignoring color codes from FORCE_COLOR)
+    const logProbe = this.logProbes.get(key);
+    // eslint-disable-next-line no-control-regex
+    if (logProbe && logProbe.test(line.replace(/\x1b\[[0-9;]*m/g, ''))) {
+      this.logProbeMatched.add(key);
+      this.logProbes.delete(key);
+    }
 
     this.onLogUpdate?.(projectAlias, appName, line, didShift);
 
@@ -184,226 +301,472 @@ export class ProcessManager {
   }
 
   /**
-   * Start a single project (all its apps)
+   * Add a line from cubicli itself (not the app) to an app's log file,
+   * where the tail picks it up like any other output
+   */
+  private async addSystemLogLine(projectAlias: string, appName: string, message: string): Promise<void> {
+    try {
+      await this.ensureLogDir();
+      await this.startTail(projectAlias, appName);
+      await appendFile(getLogFilePath(projectAlias, appName), `[cubicli] ${message}\n`);
+    } catch {
+      // Ignore write errors
+    }
+  }
+
+  /**
+   * Start a single project with the apps of a profile. `portResolutions` says per
+   * app what to do when its port is held by a process cubicli didn't start.
    */
-  async startProject(project: Project, dopplerConfig: DopplerConfig): Promise<void> {
-    // Ensure all required ports for this project are available
-    const requiredPorts = getProjectPorts(project);
-    await ensurePortsAvailable(requiredPorts);
+  async startProject(
+    project: Project,
+    selection: SecretsSelection,
+    profile: string = ALL_PROFILE,
+    portResolutions: Record<string, PortResolution> = {}
+  ): Promise<void> {
+    const secrets = resolveSecrets(project, selection);
+
+    const apps = getProfileApps(profile);
+
+    // Lease ports up front so every app's templates see the same assignments
+    let skipped: PortConflict[];
+    try {
+      ({ skipped } = await leaseProjectPorts(project, apps, portResolutions));
+    } catch (err) {
+      for (const app of apps) {
+        await this.addSystemLogLine(project.alias, app.name, `Not started: ${(err as Error).message}`);
+      }
+      return;
+    }
 
     // Reset nx daemon to clear any stale state from previous runs
     await resetNxDaemon(project.path);
 
     // Clear log buffers for this project
-    for (const app of APPS) {
-      this.clearLogBuffer(project.alias, app.name);
+    for (const app of apps) {
+      await this.clearLogBuffer(project.alias, app.name);
     }
 
-    const state = await loadState();
-    const projectState: ProjectState = {
-      dopplerConfig,
-      startedAt: new Date().toISOString(),
-      processes: {},
-    };
+    // Record the project up front so starting apps have somewhere to report status
+    await stateStore.update((state) => {
+      state.activeProjects[project.alias] = {
+        secrets,
+        profile,
+        startedAt: new Date().toISOString(),
+        processes: {},
+      };
+    });
 
     // Initialize process map for this project
     if (!this.processes.has(project.alias)) {
       this.processes.set(project.alias, new Map());
     }
 
-    for (const app of APPS) {
-      await this.startApp(app, project, dopplerConfig, projectState);
-    }
+    await this.startAppsInOrder(apps, project, secrets, skipped);
+  }
+
+  /**
+   * Start apps so that each one waits until its dependencies are ready,
+   * while apps that don't depend on each other start in parallel
+   */
+  private async startAppsInOrder(
+    apps: AppConfig[],
+    project: Project,
+    secrets: SecretsSelection,
+    skipped: PortConflict[] = []
+  ): Promise<void> {
+    const readiness = new Map<string, Promise<boolean>>();
+
+    const start = (app: AppConfig): Promise<boolean> => {
+      let ready = readiness.get(app.name);
+      if (!ready) {
+        ready = (async () => {
+          const conflict = skipped.find(c => c.app === app.name);
+          if (conflict) {
+            const owners = conflict.owners.map(describePortOwner).join(', ');
+            this.addSystemLogLine(project.alias, app.name, `Skipped: port ${conflict.port} is used by ${owners}`);
+            return false;
+          }
 
-    state.activeProjects[project.alias] = projectState;
-    await saveState(state);
+          const deps = apps.filter(a => app.dependsOn?.includes(a.name));
+          const depsReady = await Promise.all(deps.map(start));
+          const failed = deps.filter((_, i) => !depsReady[i]);
+          if (failed.length > 0) {
+            this.addSystemLogLine(project.alias, app.name, `Not started: ${failed.map(d => d.name).join(', ')} did not become ready`);
+            return false;
+          }
+
+          this.resetRestartTracking(project.alias, app.name);
+          await this.spawnApp(app, project, secrets);
+          return this.waitForReady(app, project);
+        })();
+        readiness.set(app.name, ready);
+      }
+      return ready;
+    };
+
+    await Promise.all(apps.map(start));
   }
 
   /**
-   * Start all projects
+   * Wait until an app's readiness probe passes. Resolves false if the app exits
+   * or is marked unhealthy because the probe timed out.
    */
-  async startAllProjects(dopplerConfig: DopplerConfig): Promise<void> {
-    for (const project of PROJECTS) {
-      if (!this.isProjectRunning(project.alias)) {
-        await this.startProject(project, dopplerConfig);
+  private async waitForReady(app: AppConfig, project: Project): Promise<boolean> {
+    const key = makeLogKey(project.alias, app.name);
+    while (this.isAppRunning(project.alias, app.name) || this.restartTimers.has(key)) {
+      const status = this.appStatus.get(key);
+      if (status === 'running') return true;
+      if (status === 'unhealthy') return false;
+      await new Promise((resolve) => setTimeout(resolve, READY_POLL_MS));
+    }
+    return false;
+  }
+
+  /**
+   * Run an app's readiness probe until it passes, then keep checking liveness
+   * (TCP and HTTP probes) for as long as this PID is the app's current process
+   */
+  private async monitorHealth(app: AppConfig, project: Project, pid: number, port: number, alreadyReady = false): Promise<void> {
+    const probe = app.readiness ?? DEFAULT_PROBE;
+    const interval = probe.interval ?? DEFAULT_PROBE_INTERVAL_MS;
+    const timeout = probe.timeout ?? DEFAULT_PROBE_TIMEOUT_MS;
+    const key = makeLogKey(project.alias, app.name);
+    const startedAt = Date.now();
+    let ready = alreadyReady;
+    let failures = 0;
+
+    // Log probes only gate startup; there is nothing more to check once ready
+    if (probe.type === 'log') {
+      if (ready) return;
+      this.logProbeMatched.delete(key);
+      this.logProbes.set(key, new RegExp(probe.pattern));
+    }
+
+    while (this.getTrackedPid(project.alias, app.name) === pid) {
+      const ok = await runProbe(probe, port, this.logProbeMatched.has(key));
+      if (this.getTrackedPid(project.alias, app.name) !== pid) break;
+
+      if (ok) {
+        failures = 0;
+        ready = true;
+        await this.setAppStatus(project.alias, app.name, pid, 'running');
+        if (probe.type === 'log') break;
+      } else if (!ready && Date.now() - startedAt > timeout) {
+        if (this.appStatus.get(key) !== 'unhealthy') {
+          this.addSystemLogLine(project.alias, app.name, `Not ready after ${Math.round(timeout / 1000)}s (${probe.type} probe)`);
+        }
+        await this.setAppStatus(project.alias, app.name, pid, 'unhealthy');
+      } else if (ready && ++failures >= UNHEALTHY_AFTER_FAILURES) {
+        await this.setAppStatus(project.alias, app.name, pid, 'unhealthy');
       }
+
+      await new Promise((resolve) => setTimeout(resolve, interval));
     }
+
+    this.logProbes.delete(key);
   }
 
-  private async startApp(
-    app: AppConfig,
-    project: Project,
-    dopplerConfig: DopplerConfig,
-    projectState: ProjectState
-  ): Promise<void> {
-    const port = getPortForApp(app, project);
-
-    // Build MICROSERVICE_*_PORT and MICROSERVICE_*_HOST env var overrides for all apps
-    const envOverrides: string[] = [];
-    for (const appConfig of APPS) {
-      const appPort = getPortForApp(appConfig, project);
-      envOverrides.push(`${appConfig.portEnvVar}=${appPort}`);
-      envOverrides.push(`${appConfig.hostEnvVar}=http://localhost`);
-    }
-
-    // Add URL-based env vars (e.g., NEXT_PUBLIC_API_BASE_URL)
-    for (const [envVar, appName] of Object.entries(URL_ENV_VARS)) {
-      const appConfig = APPS.find(a => a.name === appName);
-      if (appConfig) {
-        const appPort = getPortForApp(appConfig, project);
-        envOverrides.push(`${envVar}=http://localhost:${appPort}`);
+  /**
+   * Update an app's status in memory and in state, if it changed
+   */
+  private async setAppStatus(projectAlias: string, appName: string, pid: number, status: AppStatus): Promise<void> {
+    const key = makeLogKey(projectAlias, appName);
+    if (this.appStatus.get(key) === status) return;
+    this.appStatus.set(key, status);
+
+    // The launcher has exec'd into the app by now, changing its command line
+    const identity = await getProcessIdentity(pid);
+
+    await stateStore.update((state) => {
+      const info = state.activeProjects[projectAlias]?.processes[appName];
+      if (info && info.pid === pid) {
+        info.status = status;
+        if (identity) {
+          info.identity = identity;
+        }
       }
+    });
+  }
+
+  /**
+   * Start all projects, each with the given profile or else its last picked one
+   */
+  async startAllProjects(selection: SecretsSelection, profile?: string): Promise<void> {
+    const { secretsChoices, profileChoices } = await stateStore.read();
+    // Side by side: each project waits until its own apps are ready
+    await Promise.all(
+      getProjects()
+        .filter(project => !this.isProjectRunning(project.alias))
+        .map(project => this.startProject(
+          project,
+          secretsChoices?.[project.alias] ?? selection,
+          profile ?? profileChoices?.[project.alias] ?? ALL_PROFILE
+        ))
+    );
+  }
+
+  private async spawnApp(app: AppConfig, project: Project, secrets: SecretsSelection): Promise<void> {
+    const ports = getProjectPortMap(await stateStore.read(), project);
+    const port = ports[app.name];
+    const variables = getTemplateVariables(app, project, ports);
+
+    // PORT first so the templates can still override it
+    const envOverrides = [`PORT=${port}`];
+    for (const [name, template] of Object.entries({ ...getConfig().env, ...app.env })) {
+      envOverrides.push(`${name}=${renderTemplate(template, variables)}`);
     }
 
-    // Isolate NX daemon per project to prevent conflicts when running multiple projects
-    const nxDaemonDir = `${LOG_DIR}/nx-daemon-${project.alias}`;
+    const nxDaemonDir = getNxDaemonDir(project.alias);
     envOverrides.push(`NX_DAEMON_SOCKET_DIR=${nxDaemonDir}`);
     envOverrides.push(`NX_PROJECT_GRAPH_CACHE_DIRECTORY=${nxDaemonDir}`);
 
-    envOverrides.push(`PORT=${port}`);
+    const cmdParts = [...app.command, ...(app.args ?? []).map(arg => renderTemplate(arg, variables))];
 
-    // Use env command to override doppler's values
-    const cmdParts = app.command.split(' ');
+    await this.ensureLogDir();
+    // Nothing writes to it until the app starts
+    await this.truncateLogFile(project.alias, app.name);
+    await this.startTail(project.alias, app.name);
 
-    // Next.js apps need --port argument
-    if (app.name === 'client-app' || app.name === 'mycelium') {
-      cmdParts.push('--port', port.toString());
+    // Use env command to override the secrets provider's values
+    let launch: { cmd: string[]; env: Record<string, string> };
+    try {
+      launch = await prepareSecrets(['env', ...envOverrides, ...cmdParts], project, secrets);
+    } catch (err) {
+      await this.addSystemLogLine(project.alias, app.name, `Could not load secrets (${formatSecrets(secrets)}): ${(err as Error).message}`);
+      this.appStatus.set(makeLogKey(project.alias, app.name), 'error');
+      return;
     }
 
-    const cmd = [
-      'doppler', 'run', '--config', dopplerConfig, '--',
-      'env',
-      ...envOverrides,
-      ...cmdParts,
-    ];
-
-    const proc = Bun.spawn({
-      cmd,
-      cwd: project.path,
-      stdout: 'pipe',
-      stderr: 'pipe',
-      env: {
-        ...process.env,
-        FORCE_COLOR: '1',
-      },
-    });
+    // Write output straight to the log file and detach, so the app keeps logging
+    // the same way after this process exits and a later session adopts it
+    const logFd = openSync(getLogFilePath(project.alias, app.name), 'a');
+    let proc: Bun.Subprocess;
+    try {
+      proc = Bun.spawn({
+        cmd: launch.cmd,
+        cwd: project.path,
+        stdout: logFd,
+        stderr: logFd,
+        detached: true,
+        env: {
+          ...process.env,
+          ...launch.env,
+          FORCE_COLOR: '1',
+        },
+      });
+    } finally {
+      closeSync(logFd);
+    }
 
     if (!this.processes.has(project.alias)) {
       this.processes.set(project.alias, new Map());
     }
     this.processes.get(project.alias)!.set(app.name, proc);
 
-    projectState.processes[app.name] = {
-      pid: proc.pid,
-      port,
-      status: 'starting',
-    };
+    const identity = await getProcessIdentity(proc.pid) ?? undefined;
+    // Read outside the mutation: it may be replayed after later restarts
+    const restarts = this.restartCounts.get(makeLogKey(project.alias, app.name)) ?? 0;
+    await stateStore.update((state) => {
+      const projectState = state.activeProjects[project.alias] ??= {
+        secrets,
+        startedAt: new Date().toISOString(),
+        processes: {},
+      };
+      projectState.processes[app.name] = {
+        pid: proc.pid,
+        identity,
+        port,
+        status: 'starting',
+        restarts,
+      };
+    });
 
-    // Stream stdout
-    this.streamOutput(project.alias, app.name, proc.stdout);
-    this.streamOutput(project.alias, app.name, proc.stderr);
-
-    // Update status when process is ready (after a brief delay)
-    setTimeout(async () => {
-      const currentState = await loadState();
-      const pState = currentState.activeProjects[project.alias];
-      if (pState?.processes[app.name] && isProcessRunning(proc.pid)) {
-        pState.processes[app.name].status = 'running';
-        await saveState(currentState);
-      }
-    }, 3000);
+    this.appStatus.set(makeLogKey(project.alias, app.name), 'starting');
+    this.monitorHealth(app, project, proc.pid, port);
 
     // Handle process exit
     proc.exited.then(async (code) => {
-      const currentState = await loadState();
-      const pState = currentState.activeProjects[project.alias];
-      if (pState?.processes[app.name]) {
-        pState.processes[app.name].status = code === 0 ? 'stopped' : 'error';
-        await saveState(currentState);
+      const key = makeLogKey(project.alias, app.name);
+      const stoppedOnPurpose = this.stopping.has(key);
+      const status: AppStatus = code === 0 || stoppedOnPurpose ? 'stopped' : 'error';
+
+      // A restart may already have replaced this process
+      const projectProcs = this.processes.get(project.alias);
+      const isCurrent = projectProcs?.get(app.name) === proc;
+      if (isCurrent) {
+        projectProcs!.delete(app.name);
+        this.appStatus.set(key, status);
+      }
+
+      const exitedAt = new Date().toISOString();
+      const isCrash = status === 'error';
+      let lastLines: string[] = [];
+      if (isCrash) {
+        // Let the last output land in the log buffer, then copy it before a restart adds to it
+        await this.logTails.get(key)?.drain();
+        lastLines = this.getLogBuffer(project.alias, app.name).lines.slice(-CRASH_LOG_LINES);
+      }
+
+      await stateStore.update((currentState) => {
+        const info = currentState.activeProjects[project.alias]?.processes[app.name];
+        if (info && info.pid === proc.pid) {
+          info.status = status;
+          info.exitCode = proc.exitCode;
+          info.signal = proc.signalCode ?? null;
+          info.exitedAt = exitedAt;
+        }
+        if (isCrash) {
+          recordCrash(currentState, {
+            project: project.alias,
+            app: app.name,
+            pid: proc.pid,
+            exitCode: proc.exitCode,
+            signal: proc.signalCode ?? null,
+            exitedAt,
+            lastLines,
+          });
+        }
+      });
+
+      if (isCurrent && !stoppedOnPurpose) {
+        await this.handleUnexpectedExit(app, project, secrets, proc.pid, code);
+      }
+    }).catch(async (err) => {
+      const key = makeLogKey(project.alias, app.name);
+      await this.addSystemLogLine(project.alias, app.name, `Exit handling failed: ${(err as Error).message}`);
+      // Unless a restart already replaced it, the app is down
+      if (!this.processes.get(project.alias)?.has(app.name)) {
+        this.appStatus.set(key, this.stopping.has(key) ? 'stopped' : 'error');
       }
-      this.processes.get(project.alias)?.delete(app.name);
     });
   }
 
-  private async streamOutput(projectAlias: string, appName: string, stream: ReadableStream<Uint8Array>): Promise<void> {
-    const reader = stream.getReader();
-    const decoder = new TextDecoder();
-    let buffer = '';
+  /**
+   * Apply an app's restart policy after it exited on its own: restart with
+   * exponential backoff, or give up as a crash loop after too many recent restarts
+   */
+  private async handleUnexpectedExit(
+    app: AppConfig,
+    project: Project,
+    secrets: SecretsSelection,
+    pid: number,
+    code: number
+  ): Promise<void> {
+    const policy: Required<RestartPolicy> = {
+      policy: app.restart?.policy ?? DEFAULT_RESTART_POLICY.policy,
+      maxRestarts: app.restart?.maxRestarts ?? DEFAULT_RESTART_POLICY.maxRestarts,
+      window: app.restart?.window ?? DEFAULT_RESTART_POLICY.window,
+      backoff: app.restart?.backoff ?? DEFAULT_RESTART_POLICY.backoff,
+      maxBackoff: app.restart?.maxBackoff ?? DEFAULT_RESTART_POLICY.maxBackoff,
+    };
+    if (policy.policy === 'never' || (policy.policy === 'on-failure' && code === 0)) return;
 
-    try {
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
+    const key = makeLogKey(project.alias, app.name);
+    const now = Date.now();
+    const recent = (this.restartHistory.get(key) ?? []).filter((time) => now - time < policy.window);
 
-        buffer += decoder.decode(value, { stream: true });
+    if (recent.length >= policy.maxRestarts) {
+      this.addSystemLogLine(project.alias, app.name, `Crash loop: ${recent.length} restarts within ${policy.window / 1000}s, giving up`);
+      await this.setAppStatus(project.alias, app.name, pid, 'crash-loop');
+      return;
+    }
 
-        // Process complete lines
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
+    const delay = Math.min(policy.maxBackoff, policy.backoff * 2 ** recent.length);
+    const restarts = (this.restartCounts.get(key) ?? 0) + 1;
+    this.restartHistory.set(key, [...recent, now]);
+    this.restartCounts.set(key, restarts);
+    this.addSystemLogLine(project.alias, app.name, `Exited with code ${code}, restarting in ${delay / 1000}s (restart #${restarts})`);
+
+    this.restartTimers.set(key, setTimeout(async () => {
+      this.restartTimers.delete(key);
+      try {
+        await this.spawnApp(app, project, secrets);
+      } catch (err) {
+        await this.addSystemLogLine(project.alias, app.name, `Restart failed: ${(err as Error).message}`);
+        this.appStatus.set(key, 'error');
+      }
+    }, delay));
+  }
 
-        for (const line of lines) {
-          if (line.trim()) {
-            const timestamp = new Date().toLocaleTimeString('en-US', { hour12: false });
-            this.addLogLine(projectAlias, appName, `[${timestamp}] ${line}`);
-          }
-        }
+  /**
+   * Cancel a pending automatic restart and forget past ones, e.g. when the user starts or stops an app
+   */
+  private resetRestartTracking(projectAlias: string, appName: string): void {
+    const key = makeLogKey(projectAlias, appName);
+    const timer = this.restartTimers.get(key);
+    if (timer) {
+      clearTimeout(timer);
+      this.restartTimers.delete(key);
+    }
+    this.restartHistory.delete(key);
+    this.restartCounts.delete(key);
+  }
+
+  /**
+   * Stop a single app (spawned or adopted) and wait for it to exit
+   */
+  private async killApp(projectAlias: string, appName: string): Promise<void> {
+    const key = makeLogKey(projectAlias, appName);
+    this.resetRestartTracking(projectAlias, appName);
+    this.stopping.add(key);
+
+    try {
+      const projectProcs = this.processes.get(projectAlias);
+      const proc = projectProcs?.get(appName);
+      if (proc) {
+        await this.killProcessTree(proc.pid);
+        projectProcs!.delete(appName);
       }
 
-      // Process remaining buffer
-      if (buffer.trim()) {
-        const timestamp = new Date().toLocaleTimeString('en-US', { hour12: false });
-        this.addLogLine(projectAlias, appName, `[${timestamp}] ${buffer}`);
+      const adoptedProcs = this.adoptedPids.get(projectAlias);
+      const adoptedPid = adoptedProcs?.get(appName);
+      if (adoptedPid) {
+        await this.killProcessTree(adoptedPid);
+        adoptedProcs!.delete(appName);
       }
-    } catch {
-      // Stream closed
+    } finally {
+      this.stopping.delete(key);
+    }
+
+    if (this.appStatus.has(key)) {
+      this.appStatus.set(key, 'stopped');
     }
   }
 
   /**
-   * Stop a single project
+   * Stop a single project, stopping dependents before the apps they depend on
    */
   async stopProject(projectAlias: string): Promise<void> {
-    const state = await loadState();
-    const projectState = state.activeProjects[projectAlias];
-
-    // Stop spawned processes for this project
-    const projectProcs = this.processes.get(projectAlias);
-    if (projectProcs) {
-      const stopPromises = Array.from(projectProcs.entries()).map(async ([appName, proc]) => {
-        await this.killProcessTree(proc.pid);
-        if (projectState?.processes[appName]) {
-          projectState.processes[appName].status = 'stopped';
-        }
-      });
-      await Promise.all(stopPromises);
-      projectProcs.clear();
-      this.processes.delete(projectAlias);
+    const layers = getStartupLayers(getConfig().apps).reverse();
+    for (const layer of layers) {
+      await Promise.all(layer.map((app) => this.killApp(projectAlias, app.name)));
     }
 
-    // Stop adopted processes for this project
-    const adoptedProcs = this.adoptedPids.get(projectAlias);
-    if (adoptedProcs) {
-      const adoptedPromises = Array.from(adoptedProcs.entries()).map(async ([appName, pid]) => {
-        await this.killProcessTree(pid);
-        if (projectState?.processes[appName]) {
-          projectState.processes[appName].status = 'stopped';
-        }
-      });
-      await Promise.all(adoptedPromises);
-      adoptedProcs.clear();
-      this.adoptedPids.delete(projectAlias);
+    // Stop anything left over, e.g. apps no longer in the config
+    const leftover = new Set([
+      ...(this.processes.get(projectAlias)?.keys() ?? []),
+      ...(this.adoptedPids.get(projectAlias)?.keys() ?? []),
+    ]);
+    await Promise.all(Array.from(leftover).map((appName) => this.killApp(projectAlias, appName)));
+    this.processes.delete(projectAlias);
+    this.adoptedPids.delete(projectAlias);
+
+    for (const app of getConfig().apps) {
+      await this.stopTail(projectAlias, app.name);
     }
 
     // Remove from active projects
-    delete state.activeProjects[projectAlias];
-    await saveState(state);
+    await stateStore.update((state) => {
+      delete state.activeProjects[projectAlias];
+    });
   }
 
   /**
    * Stop all projects
    */
   async stopAllProjects(): Promise<void> {
-    const state = await loadState();
+    const state = await stateStore.read();
     const projectAliases = Object.keys(state.activeProjects);
 
     for (const alias of projectAliases) {
@@ -411,50 +774,83 @@ export class ProcessManager {
     }
   }
 
-  async restartProject(project: Project, dopplerConfig: DopplerConfig): Promise<void> {
+  /**
+   * Restart a project, keeping the profile it runs with unless given another
+   */
+  async restartProject(project: Project, selection: SecretsSelection, profile?: string): Promise<void> {
+    const state = await stateStore.read();
+    const nextProfile = profile ?? state.activeProjects[project.alias]?.profile ?? ALL_PROFILE;
     await this.stopProject(project.alias);
-    await this.startProject(project, dopplerConfig);
+    await this.startProject(project, selection, nextProfile);
   }
 
-  async restartApp(appName: string, project: Project, dopplerConfig: DopplerConfig): Promise<void> {
-    const app = APPS.find((a) => a.name === appName);
+  async restartApp(appName: string, project: Project, secrets: SecretsSelection): Promise<void> {
+    const app = getConfig().apps.find((a) => a.name === appName);
     if (!app) return;
 
     // Stop the specific app (check both spawned and adopted)
-    const projectProcs = this.processes.get(project.alias);
-    if (projectProcs) {
-      const proc = projectProcs.get(appName);
-      if (proc) {
-        await this.killProcessTree(proc.pid);
-        projectProcs.delete(appName);
-      }
+    await this.killApp(project.alias, appName);
+
+    // Clear log buffer
+    await this.clearLogBuffer(project.alias, appName);
+
+    // Start the app again
+    await this.spawnApp(app, project, secrets);
+  }
+
+  /**
+   * Start one app of a project, along with any apps it depends on that aren't
+   * running. A stopped project becomes active with just these apps.
+   */
+  async startApp(
+    appName: string,
+    project: Project,
+    selection: SecretsSelection,
+    portResolutions: Record<string, PortResolution> = {}
+  ): Promise<void> {
+    const { apps } = getConfig();
+    const app = apps.find((a) => a.name === appName);
+    if (!app || this.isAppRunning(project.alias, appName)) return;
+
+    // Apps of a running project share its secrets
+    const state = await stateStore.read();
+    const secrets = state.activeProjects[project.alias]?.secrets ?? resolveSecrets(project, selection);
+    const toStart = [...getTransitiveDependencies(app, apps), app].filter((a) => !this.isAppRunning(project.alias, a.name));
+
+    let skipped: PortConflict[];
+    try {
+      ({ skipped } = await leaseProjectPorts(project, toStart, portResolutions));
+    } catch (err) {
+      await this.addSystemLogLine(project.alias, appName, `Not started: ${(err as Error).message}`);
+      return;
     }
 
-    const adoptedProcs = this.adoptedPids.get(project.alias);
-    if (adoptedProcs) {
-      const adoptedPid = adoptedProcs.get(appName);
-      if (adoptedPid) {
-        await this.killProcessTree(adoptedPid);
-        adoptedProcs.delete(appName);
-      }
+    for (const a of toStart) {
+      await this.clearLogBuffer(project.alias, a.name);
     }
+    await this.startAppsInOrder(toStart, project, secrets, skipped);
+  }
 
-    // Clear log buffer
-    this.clearLogBuffer(project.alias, appName);
+  /**
+   * Stop one app of a project, leaving its other apps running. Stopping the
+   * last running app stops the project.
+   */
+  async stopApp(appName: string, projectAlias: string): Promise<void> {
+    await this.killApp(projectAlias, appName);
+    await this.stopTail(projectAlias, appName);
+
+    // Adopted processes have no exit handler to record this
+    await stateStore.update((state) => {
+      const info = state.activeProjects[projectAlias]?.processes[appName];
+      if (info && info.status !== 'stopped') {
+        info.status = 'stopped';
+        info.exitedAt = new Date().toISOString();
+      }
+    });
 
-    // Start the app again
-    const state = await loadState();
-    let projectState = state.activeProjects[project.alias];
-    if (!projectState) {
-      projectState = {
-        dopplerConfig,
-        startedAt: new Date().toISOString(),
-        processes: {},
-      };
-      state.activeProjects[project.alias] = projectState;
+    if (!this.isProjectRunning(projectAlias)) {
+      await this.stopProject(projectAlias);
     }
-    await this.startApp(app, project, dopplerConfig, projectState);
-    await saveState(state);
   }
 
   private killProcessTree(pid: number, timeout = 5000): Promise<void> {
@@ -521,34 +917,44 @@ export class ProcessManager {
   }
 
   /**
-   * Check if a specific app's port is actually listening
+   * Get the PID of an app's current process (spawned or adopted)
    */
-  isAppListening(projectAlias: string, appName: string): boolean {
-    const key = makeLogKey(projectAlias, appName);
-    return this.portListening.get(key) ?? false;
+  private getTrackedPid(projectAlias: string, appName: string): number | undefined {
+    return this.processes.get(projectAlias)?.get(appName)?.pid ?? this.adoptedPids.get(projectAlias)?.get(appName);
   }
 
   /**
-   * Get count of listening apps for a project (ports actually responding)
+   * Get the health status of an app, or undefined if it was never started
    */
-  getListeningAppCount(projectAlias: string): { listening: number; total: number } {
-    let listening = 0;
-    const total = APPS.length;
-    for (const app of APPS) {
-      if (this.isAppListening(projectAlias, app.name)) {
-        listening++;
-      }
-    }
-    return { listening, total };
+  getAppStatus(projectAlias: string, appName: string): AppStatus | undefined {
+    return this.appStatus.get(makeLogKey(projectAlias, appName));
+  }
+
+  /**
+   * Get count of ready apps for a project (readiness probe passing), out of
+   * `apps`, e.g. those of its profile
+   */
+  getHealthyAppCount(projectAlias: string, apps: AppConfig[] = getConfig().apps): { healthy: number; total: number } {
+    const healthy = apps.filter((app) => this.getAppStatus(projectAlias, app.name) === 'running').length;
+    return { healthy, total: apps.length };
+  }
+
+  /**
+   * Check if a specific app's port is actually listening
+   */
+  isAppListening(projectAlias: string, appName: string): boolean {
+    const key = makeLogKey(projectAlias, appName);
+    return this.portListening.get(key) ?? false;
   }
 
   /**
    * Get count of running apps for a project (process spawned)
    */
   getRunningAppCount(projectAlias: string): { running: number; total: number } {
+    const { apps } = getConfig();
     let running = 0;
-    const total = APPS.length;
-    for (const app of APPS) {
+    const total = apps.length;
+    for (const app of apps) {
       if (this.isAppRunning(projectAlias, app.name)) {
         running++;
       }
@@ -0,0 +1,163 @@
+import { basename } from 'path';
+import { getConfig } from '../config/loader';
+import type { Project } from '../config/projects';
+import { listWorktrees } from './git';
+import { stateStore } from './state-store';
+
+let currentProjects: Project[] | null = null;
+
+/**
+ * Derive a short alias from a worktree directory name, e.g. "cubic-alt" -> "alt"
+ * when the root repository is "cubic"
+ */
+function deriveAlias(rootName: string, dirName: string): string {
+  if (dirName !== rootName && dirName.startsWith(`${rootName}-`)) {
+    return dirName.slice(rootName.length + 1);
+  }
+  return dirName;
+}
+
+/**
+ * Pick the lowest index not already taken by another worktree
+ */
+function nextFreeIndex(used: Set<number>): number {
+  let index = 0;
+  while (used.has(index)) index++;
+  return index;
+}
+
+/**
+ * Build the project list from the worktrees of the discovery root.
+ * Indices are persisted per worktree path, so a project keeps its ports
+ * when other worktrees are added or removed.
+ */
+async function discoverProjects(root: string): Promise<Project[]> {
+  const { projects: overrides } = getConfig();
+  const worktrees = (await listWorktrees(root)).filter(w => !w.isBare);
+  if (worktrees.length === 0) return [];
+
+  let indices = (await stateStore.read()).projectIndices ?? {};
+  // A read-only window leaves this to the supervisor; new worktrees show up once it has
+  if (worktrees.some(w => indices[w.path] === undefined) && !stateStore.isReadOnly()) {
+    // Assign new indices under the state lock, so two processes can't hand out the same one
+    indices = await stateStore.updateLocked((state) => {
+      const assigned = { ...state.projectIndices };
+      const used = new Set(Object.values(assigned));
+      for (const worktree of worktrees) {
+        if (assigned[worktree.path] === undefined) {
+          assigned[worktree.path] = nextFreeIndex(used);
+          used.add(assigned[worktree.path]);
+        }
+      }
+      state.projectIndices = assigned;
+      return assigned;
+    });
+  }
+
+  const rootName = basename(root);
+  const discovered = worktrees
+    .filter(w => indices[w.path] !== undefined)
+    .sort((a, b) => indices[a.path] - indices[b.path]);
+  // Aliases must be unique: configured ones win, then the oldest worktree keeps a derived alias
+  const taken = new Set(overrides.filter(p => discovered.some(w => w.path === p.path)).map(p => p.alias));
+
+  return discovered.map((worktree): Project => {
+    const dirName = basename(worktree.path);
+    const index = indices[worktree.path];
+    const override = overrides.find(p => p.path === worktree.path);
+    let alias = override?.alias;
+    if (!alias) {
+      alias = [deriveAlias(rootName, dirName), dirName].find(a => !taken.has(a)) ?? `${dirName}-${index}`;
+      taken.add(alias);
+    }
+    return {
+      name: override?.name ?? dirName,
+      alias,
+      path: worktree.path,
+      index,
+      secrets: override?.secrets,
+    };
+  });
+}
+
+/**
+ * Re-read the project list: discovered worktrees when discovery is configured,
+ * otherwise the configured projects
+ */
+export async function refreshProjects(): Promise<Project[]> {
+  const { discovery, projects } = getConfig();
+  if (discovery) {
+    const discovered = await discoverProjects(discovery.root);
+    // Keep the last known list if the root is temporarily unreadable
+    if (discovered.length > 0 || !currentProjects) {
+      currentProjects = discovered;
+    }
+  } else {
+    const state = await stateStore.read();
+    currentProjects = [...projects, ...(state.worktreeSlots ?? [])];
+  }
+  return currentProjects;
+}
+
+/**
+ * Register a newly created worktree as a project slot with its own index
+ */
+export async function registerWorktree(path: string, rootName: string): Promise<Project | undefined> {
+  const { discovery } = getConfig();
+  if (!discovery) {
+    await stateStore.updateLocked((state) => {
+      const slots = state.worktreeSlots ?? [];
+      const used = new Set([...getProjects(), ...slots].map(p => p.index));
+      const dirName = basename(path);
+      const alias = deriveAlias(rootName, dirName);
+      const aliasTaken = [...getProjects(), ...slots].some(p => p.alias === alias);
+      slots.push({
+        name: dirName,
+        alias: aliasTaken ? dirName : alias,
+        path,
+        index: nextFreeIndex(used),
+      });
+      state.worktreeSlots = slots;
+    });
+  }
+
+  // Discovery assigns the index itself when it sees the new worktree
+  const projects = await refreshProjects();
+  return projects.find(p => p.path === path);
+}
+
+/**
+ * Forget a removed worktree and release its index for reuse
+ */
+export async function unregisterWorktree(path: string): Promise<void> {
+  await stateStore.update((state) => {
+    if (state.projectIndices) {
+      delete state.projectIndices[path];
+    }
+    if (state.worktreeSlots) {
+      state.worktreeSlots = state.worktreeSlots.filter(p => p.path !== path);
+    }
+  });
+  await refreshProjects();
+}
+
+/**
+ * Find the main worktree of the repository a project belongs to
+ */
+export async function getRootRepo(project?: Project): Promise<string | null> {
+  const { discovery } = getConfig();
+  if (discovery) return discovery.root;
+  if (!project) return null;
+
+  const worktrees = await listWorktrees(project.path);
+  return worktrees[0]?.path ?? null;
+}
+
+/**
+ * Get the current project list (as of the last refresh)
+ */
+export function getProjects(): Project[] {
+  if (currentProjects) return currentProjects;
+  const { discovery, projects } = getConfig();
+  return discovery ? [] : projects;
+}
@@ -0,0 +1,248 @@
+import { existsSync } from 'fs';
+import { readdir, readFile } from 'fs/promises';
+import { resolve } from 'path';
+import { getConfig } from '../config/loader';
+import type { Project, SecretsProviderName, SecretsSelection, SecretsSettings } from '../config/projects';
+import type { AppState } from './state';
+
+const DEFAULT_JSON_SECRETS_FILE = 'secrets.json';
+const LIST_CONFIGS_TIMEOUT_MS = 5000;
+const CONFIGS_CACHE_TTL_MS = 5 * 60_000;
+
+export class SecretsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SecretsError';
+  }
+}
+
+/**
+ * Where an app's secrets come from. A provider either wraps the command so
+ * secrets are injected at run time, or loads them up front into the environment.
+ */
+interface SecretsProvider {
+  wrapCommand(cmd: string[], selection: SecretsSelection): string[];
+  loadEnv(project: Project, selection: SecretsSelection, settings: SecretsSettings): Promise<Record<string, string>>;
+  listConfigs(project: Project, settings: SecretsSettings): Promise<string[]>;
+}
+
+export interface SecretsConfigList {
+  configs: string[];
+  fromProvider: boolean;  // False when falling back to the configured list
+}
+
+const configsCache: Map<string, { list: SecretsConfigList; fetchedAt: number }> = new Map();
+
+/**
+ * Parse a .env file: KEY=value lines, optional `export`, # comments and quoted values
+ */
+export function parseDotenv(content: string): Record<string, string> {
+  const env: Record<string, string> = {};
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const match = line.match(/^(?:export\s+)?([A-Za-z_][A-Za-z0-9_.]*)\s*=\s*(.*)$/);
+    if (!match) continue;
+
+    const [, key, rawValue] = match;
+    let value = rawValue;
+    if (value.startsWith('"') && value.lastIndexOf('"') > 0) {
+      value = value.slice(1, value.lastIndexOf('"')).replace(/\\n/g, '\n').replace(/\\"/g, '"');
+    } else if (value.startsWith("'") && value.lastIndexOf("'") > 0) {
+      value = value.slice(1, value.lastIndexOf("'"));
+    } else {
+      // Unquoted values end at an inline comment
+      value = value.replace(/\s+#.*$/, '').trim();
+    }
+    env[key] = value;
+  }
+
+  return env;
+}
+
+/**
+ * Run a command and return its stdout, failing on a non-zero exit or after the timeout
+ */
+async function runWithTimeout(cmd: string[], cwd: string, timeoutMs: number): Promise<string> {
+  const proc = Bun.spawn(cmd, { cwd, stdout: 'pipe', stderr: 'pipe' });
+  const timer = setTimeout(() => proc.kill(), timeoutMs);
+  try {
+    const [output, code] = await Promise.all([new Response(proc.stdout).text(), proc.exited]);
+    if (code !== 0) {
+      throw new SecretsError(`${cmd.join(' ')} exited with code ${code}`);
+    }
+    return output;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function readJsonSecrets(project: Project, settings: SecretsSettings): Promise<{ file: string; parsed: unknown }> {
+  const file = resolve(project.path, settings.file ?? DEFAULT_JSON_SECRETS_FILE);
+  try {
+    return { file, parsed: JSON.parse(await readFile(file, 'utf-8')) };
+  } catch (err) {
+    throw new SecretsError(`could not read ${file} (${(err as Error).message})`);
+  }
+}
+
+// Configs of the Doppler project set up for the project directory
+const doppler: SecretsProvider = {
+  wrapCommand: (cmd, { config }) => ['doppler', 'run', '--config', config, '--', ...cmd],
+  loadEnv: async () => ({}),
+  async listConfigs(project) {
+    const output = await runWithTimeout(['doppler', 'configs', '--json'], project.path, LIST_CONFIGS_TIMEOUT_MS);
+    const configs: unknown = JSON.parse(output);
+    if (!Array.isArray(configs)) {
+      throw new SecretsError('unexpected output from doppler configs');
+    }
+    return configs.map(c => (c as { name?: unknown }).name).filter((name): name is string => typeof name === 'string');
+  },
+};
+
+// .env, then .env.<config> on top of it, from the project directory
+const dotenv: SecretsProvider = {
+  wrapCommand: (cmd) => cmd,
+  async loadEnv(project, { config }) {
+    const files = config ? [`${project.path}/.env`, `${project.path}/.env.${config}`] : [`${project.path}/.env`];
+    const existing = files.filter(file => existsSync(file));
+    if (existing.length === 0) {
+      throw new SecretsError(config ? `no .env or .env.${config} in ${project.path}` : `no .env in ${project.path}`);
+    }
+
+    const env: Record<string, string> = {};
+    for (const file of existing) {
+      Object.assign(env, parseDotenv(await readFile(file, 'utf-8')));
+    }
+    return env;
+  },
+  async listConfigs(project) {
+    const files = await readdir(project.path);
+    return files.filter(file => file.startsWith('.env.')).map(file => file.slice('.env.'.length)).sort();
+  },
+};
+
+// A JSON file mapping config names to { "KEY": "value" } objects
+const json: SecretsProvider = {
+  wrapCommand: (cmd) => cmd,
+  async loadEnv(project, { config }, settings) {
+    const { file, parsed } = await readJsonSecrets(project, settings);
+    const values = (parsed as Record<string, unknown>)?.[config];
+    if (typeof values !== 'object' || values === null || Array.isArray(values)) {
+      throw new SecretsError(`${file} has no "${config}" object`);
+    }
+
+    const env: Record<string, string> = {};
+    for (const [key, value] of Object.entries(values)) {
+      env[key] = typeof value === 'string' ? value : JSON.stringify(value);
+    }
+    return env;
+  },
+  async listConfigs(project, settings) {
+    const { parsed } = await readJsonSecrets(project, settings);
+    return Object.keys(parsed as Record<string, unknown>);
+  },
+};
+
+const none: SecretsProvider = {
+  wrapCommand: (cmd) => cmd,
+  loadEnv: async () => ({}),
+  listConfigs: async () => [],
+};
+
+const PROVIDERS: Record<SecretsProviderName, SecretsProvider> = { doppler, dotenv, json, none };
+
+function getSettings(project: Project): SecretsSettings {
+  return project.secrets ?? getConfig().secrets;
+}
+
+/**
+ * The config names the config file lists for a provider; only Doppler's are listed
+ */
+export function getConfiguredConfigs(provider: SecretsProviderName): string[] {
+  return provider === 'doppler' ? getConfig().dopplerConfigs : [];
+}
+
+/**
+ * The selection for projects without one of their own: the default picked in
+ * the dashboard, otherwise the configured provider and its first config
+ */
+export function getDefaultSelection(state: AppState): SecretsSelection {
+  const { secrets } = getConfig();
+  return state.secrets ?? { provider: secrets.provider, config: secrets.config ?? getConfiguredConfigs(secrets.provider)[0] ?? '' };
+}
+
+/**
+ * The selection a project should start with: the last one picked for it,
+ * otherwise the global default
+ */
+export function getProjectSelection(project: Project, state: AppState): SecretsSelection {
+  return state.secretsChoices?.[project.alias] ?? getDefaultSelection(state);
+}
+
+/**
+ * Pick the secrets a project starts with: its own settings when it has them,
+ * otherwise the globally selected provider and config
+ */
+export function resolveSecrets(project: Project, selection: SecretsSelection): SecretsSelection {
+  if (!project.secrets) return selection;
+  return {
+    provider: project.secrets.provider,
+    config: project.secrets.config ?? selection.config,
+  };
+}
+
+/**
+ * Build the command and extra environment that run an app with its secrets
+ */
+export async function prepareSecrets(
+  cmd: string[],
+  project: Project,
+  selection: SecretsSelection
+): Promise<{ cmd: string[]; env: Record<string, string> }> {
+  const provider = PROVIDERS[selection.provider];
+  return {
+    cmd: provider.wrapCommand(cmd, selection),
+    env: await provider.loadEnv(project, selection, getSettings(project)),
+  };
+}
+
+/**
+ * Short label for a selection, e.g. "dev" for Doppler or "dotenv:dev"
+ */
+export function formatSecrets(selection: SecretsSelection): string {
+  switch (selection.provider) {
+    case 'doppler':
+      return selection.config;
+    case 'none':
+      return 'no secrets';
+    default:
+      return selection.config ? `${selection.provider}:${selection.config}` : selection.provider;
+  }
+}
+
+/**
+ * List the config names a project can pick from its provider. Results are cached
+ * for a few minutes; when the provider can't be asked (e.g. the Doppler CLI is
+ * missing or offline) this falls back to the configured list.
+ */
+export async function listSecretsConfigs(project: Project, provider: SecretsProviderName): Promise<SecretsConfigList> {
+  const key = `${provider}:${project.path}`;
+  const cached = configsCache.get(key);
+  if (cached && Date.now() - cached.fetchedAt < CONFIGS_CACHE_TTL_MS) {
+    return cached.list;
+  }
+
+  let list: SecretsConfigList;
+  try {
+    const configs = await PROVIDERS[provider].listConfigs(project, getSettings(project));
+    list = configs.length > 0 ? { configs, fromProvider: true } : { configs: getConfiguredConfigs(provider), fromProvider: false };
+  } catch {
+    list = { configs: getConfiguredConfigs(provider), fromProvider: false };
+  }
+
+  configsCache.set(key, { list, fetchedAt: Date.now() });
+  return list;
+}
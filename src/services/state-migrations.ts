@@ -0,0 +1,95 @@
+import type { AppState } from './state';
+
+type RawState = Record<string, unknown>;
+
+// Migrates a state file from version i to i + 1, editing it in place
+type Migration = (state: RawState) => void;
+
+/**
+ * A state file written by a newer cubicli, which this version can't read
+ */
+export class UnknownStateVersionError extends Error {
+  constructor(public readonly version: unknown) {
+    super(`unknown state version ${JSON.stringify(version)} (this cubicli reads up to ${STATE_VERSION})`);
+    this.name = 'UnknownStateVersionError';
+  }
+}
+
+function isObject(value: unknown): value is RawState {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function dopplerSelection(config: unknown): { provider: 'doppler'; config: string } {
+  return { provider: 'doppler', config: typeof config === 'string' ? config : 'dev' };
+}
+
+/**
+ * In order; append new ones to change the shape of state.json. A file without a
+ * version is version 0.
+ */
+const MIGRATIONS: Migration[] = [
+  // 0 -> 1: single active project and Doppler-only config names
+  (state) => {
+    if (typeof state.activeProject === 'string' && !isObject(state.activeProjects)) {
+      state.activeProjects = {};
+      if (state.startedAt && isObject(state.processes)) {
+        (state.activeProjects as RawState)[state.activeProject] = {
+          secrets: dopplerSelection(state.dopplerConfig),
+          startedAt: state.startedAt,
+          processes: state.processes,
+        };
+      }
+    }
+    delete state.activeProject;
+    delete state.startedAt;
+    delete state.processes;
+
+    if (typeof state.dopplerConfig === 'string') {
+      state.secrets ??= dopplerSelection(state.dopplerConfig);
+    }
+    delete state.dopplerConfig;
+
+    for (const projectState of Object.values(isObject(state.activeProjects) ? state.activeProjects : {})) {
+      if (isObject(projectState) && typeof projectState.dopplerConfig === 'string') {
+        projectState.secrets ??= dopplerSelection(projectState.dopplerConfig);
+        delete projectState.dopplerConfig;
+      }
+    }
+  },
+
+  // 1 -> 2: restart counts on every app and port leases, so readers can rely on them
+  (state) => {
+    state.portLeases ??= {};
+    for (const projectState of Object.values(isObject(state.activeProjects) ? state.activeProjects : {})) {
+      if (!isObject(projectState) || !isObject(projectState.processes)) continue;
+      for (const info of Object.values(projectState.processes)) {
+        if (isObject(info)) {
+          info.restarts ??= 0;
+        }
+      }
+    }
+  },
+];
+
+export const STATE_VERSION = MIGRATIONS.length;
+
+/**
+ * Bring parsed state.json contents up to the current version. Throws for
+ * contents that aren't a state object or come from a newer version.
+ */
+export function migrateState(raw: unknown): Partial<AppState> {
+  if (!isObject(raw)) {
+    throw new Error('state is not a JSON object');
+  }
+
+  const version = raw.version ?? 0;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0 || version > STATE_VERSION) {
+    throw new UnknownStateVersionError(version);
+  }
+
+  for (const migrate of MIGRATIONS.slice(version)) {
+    migrate(raw);
+  }
+  raw.version = STATE_VERSION;
+  return raw as Partial<AppState>;
+}
@@ -0,0 +1,261 @@
+import { watch, type FSWatcher } from 'fs';
+import { basename } from 'path';
+import { STATE_DIR, STATE_FILE } from '../config/projects';
+import { ensureStateDir, loadState, updateState, type AppState } from './state';
+
+// Changes within this window are written to disk together
+const SAVE_DEBOUNCE_MS = 100;
+// Let a burst of file events settle before re-reading
+const WATCH_DEBOUNCE_MS = 50;
+// How often to re-read state.json where the directory can't be watched
+const POLL_INTERVAL_MS = 1000;
+
+export type StateMutation<T = void> = (state: AppState) => T;
+
+export interface StateChangeEvent {
+  state: AppState;
+  source: 'local' | 'external';  // External: another cubicli process wrote the file
+  keys: (keyof AppState)[];       // Top-level fields that changed
+}
+
+export type StateChangeListener = (event: StateChangeEvent) => void;
+
+/**
+ * An update in a process that only watches the state, such as a dashboard
+ * attached read-only
+ */
+export class ReadOnlyStateError extends Error {
+  constructor() {
+    super('state is read-only in this window');
+    this.name = 'ReadOnlyStateError';
+  }
+}
+
+function getChangedKeys(before: AppState, after: AppState): (keyof AppState)[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)] as (keyof AppState)[]);
+  return [...keys].filter(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]));
+}
+
+/**
+ * Owns the app state in memory for a long-running process. Updates apply at
+ * once and are written to disk shortly after; state.json is only re-read when
+ * another process changes it. Writes replay the pending updates onto the file's
+ * latest contents under the state lock, so they never undo another process's.
+ */
+export class StateStore {
+  private state: AppState | null = null;
+  private loading?: Promise<AppState>;
+  // Updates applied in memory but not yet written, oldest first
+  private pending: StateMutation<unknown>[] = [];
+  // File contents as last read or written, to tell our own writes from others'
+  private lastSynced = '';
+  private saveTimer?: Timer;
+  private saving: Promise<void> = Promise.resolve();
+  private watcher?: FSWatcher;
+  private watchTimer?: Timer;
+  private pollInterval?: Timer;
+  private listeners: Set<StateChangeListener> = new Set();
+  private readOnly = false;
+
+  /**
+   * The current state, loaded from disk on first use. Treat it as read-only;
+   * change it through update().
+   */
+  async read(): Promise<AppState> {
+    if (this.state) return this.state;
+    this.loading ??= this.load();
+    return this.loading;
+  }
+
+  /**
+   * Apply a change now and schedule writing it. `mutate` may run again later
+   * against a newer file state, so it should only depend on the state it's given
+   * and on values captured when it was created.
+   */
+  async update<T>(mutate: StateMutation<T>): Promise<T> {
+    if (this.readOnly) throw new ReadOnlyStateError();
+    const state = await this.read();
+    const before = structuredClone(state);
+    const result = mutate(state);
+    this.pending.push(mutate);
+    this.emit('local', before, state);
+    this.scheduleSave();
+    return result;
+  }
+
+  /**
+   * Apply a change to state.json at once, under the state lock, together with
+   * any pending updates. For allocations such as indices and ports, which must
+   * see every other process's latest writes; `mutate` runs exactly once, and
+   * its result is what was actually saved.
+   */
+  async updateLocked<T>(mutate: StateMutation<T>): Promise<T> {
+    if (this.readOnly) throw new ReadOnlyStateError();
+    await this.read();
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+    let result!: T;
+    const save = this.saving.then(() => this.save((state) => {
+      result = mutate(state);
+    }));
+    this.saving = save.catch(() => {});
+    await save;
+    return result;
+  }
+
+  /**
+   * Refuse updates while set; reading and watching carry on
+   */
+  setReadOnly(readOnly: boolean): void {
+    this.readOnly = readOnly;
+  }
+
+  isReadOnly(): boolean {
+    return this.readOnly;
+  }
+
+  /**
+   * Listen for state changes; returns a function that stops listening
+   */
+  onChange(listener: StateChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Write pending changes now, e.g. before replying to a request or exiting
+   */
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+    const save = this.saving.then(() => this.save());
+    this.saving = save.catch(() => {});
+    await save;
+  }
+
+  /**
+   * Write pending changes and stop watching the file
+   */
+  async close(): Promise<void> {
+    await this.flush();
+    this.watcher?.close();
+    this.watcher = undefined;
+    if (this.watchTimer) {
+      clearTimeout(this.watchTimer);
+    }
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = undefined;
+    }
+  }
+
+  private async load(): Promise<AppState> {
+    await ensureStateDir();
+    this.startWatching();
+    const state = await loadState();
+    this.lastSynced = JSON.stringify(state);
+    this.state = state;
+    return state;
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.saving = this.saving.then(() => this.save()).catch(() => {});
+    }, SAVE_DEBOUNCE_MS);
+  }
+
+  /**
+   * Write the pending updates, then `locked` if given, onto the file's latest state
+   */
+  private async save(locked?: StateMutation): Promise<void> {
+    if (this.pending.length === 0 && !locked) return;
+    const mutations = this.pending;
+    this.pending = [];
+
+    let saved: AppState;
+    try {
+      saved = await updateState((fileState) => {
+        for (const mutate of mutations) {
+          mutate(fileState);
+        }
+        locked?.(fileState);
+        return fileState;
+      });
+    } catch (err) {
+      // Keep them for the next attempt
+      this.pending = [...mutations, ...this.pending];
+      throw err;
+    }
+    this.lastSynced = JSON.stringify(saved);
+    this.rebase(saved, locked ? 'local' : 'external');
+  }
+
+  /**
+   * Make `base` plus the still-pending updates the current state, telling
+   * listeners about any difference from what they saw
+   */
+  private rebase(base: AppState, source: StateChangeEvent['source']): void {
+    for (const mutate of this.pending) {
+      mutate(base);
+    }
+    const before = this.state;
+    this.state = base;
+    if (before) {
+      this.emit(source, before, base);
+    }
+  }
+
+  private startWatching(): void {
+    // Watch the directory: saves replace state.json by renaming over it
+    try {
+      this.watcher = watch(STATE_DIR, (_event, filename) => {
+        if (filename !== null && filename !== basename(STATE_FILE)) return;
+        if (this.watchTimer) clearTimeout(this.watchTimer);
+        this.watchTimer = setTimeout(() => this.reloadQuietly(), WATCH_DEBOUNCE_MS);
+      });
+      this.watcher.on('error', () => this.startPolling());
+    } catch {
+      this.startPolling();
+    }
+  }
+
+  /**
+   * Fall back to re-reading state.json on an interval when watching fails
+   */
+  private startPolling(): void {
+    this.watcher?.close();
+    this.watcher = undefined;
+    this.pollInterval ??= setInterval(() => this.reloadQuietly(), POLL_INTERVAL_MS);
+  }
+
+  private reloadQuietly(): void {
+    // Unreadable for now (e.g. mid-backup); the next change or poll tries again
+    this.reloadIfChanged().catch(() => {});
+  }
+
+  private async reloadIfChanged(): Promise<void> {
+    // Wait for our own save to finish so its write isn't taken for someone else's
+    await this.saving;
+    const fileState = await loadState();
+    const content = JSON.stringify(fileState);
+    if (content === this.lastSynced) return;
+    this.lastSynced = content;
+    this.rebase(fileState, 'external');
+  }
+
+  private emit(source: StateChangeEvent['source'], before: AppState, after: AppState): void {
+    const keys = getChangedKeys(before, after);
+    if (keys.length === 0) return;
+    for (const listener of this.listeners) {
+      listener({ state: after, source, keys });
+    }
+  }
+}
+
+export const stateStore = new StateStore();
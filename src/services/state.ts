@@ -1,90 +1,258 @@
-import { mkdir, readFile, writeFile } from 'fs/promises';
+import { mkdir, readFile, rename, rm, stat, writeFile } from 'fs/promises';
 import { existsSync } from 'fs';
-import { STATE_DIR, STATE_FILE, type DopplerConfig } from '../config/projects';
+import { STATE_DIR, STATE_FILE, STATE_LOCK_FILE, type Project, type SecretsSelection } from '../config/projects';
+import { checkTcp } from './health';
+import { migrateState, STATE_VERSION } from './state-migrations';
+import { getCwdFromProc, getListeningPidsFromProc } from './proc-net';
+import { getProcDetails, getProcIdentity, getProcTreeStats, isProcAvailable } from './proc-stats';
+
+// A local connect either succeeds or is refused almost immediately
+const PORT_CHECK_TIMEOUT_MS = 250;
+
+// Tells a process apart from a later one that got the same PID
+export interface ProcessIdentity {
+  startTime: string;  // Platform-specific, only compared for equality
+  command: string;  // As recorded; not compared, since an exec changes it
+}
 
 export interface ProcessInfo {
   pid: number;
+  identity?: ProcessIdentity;  // Absent for apps recorded before it was tracked
   port: number;
-  status: 'starting' | 'running' | 'stopped' | 'error';
+  status: 'starting' | 'running' | 'unhealthy' | 'stopped' | 'error' | 'crash-loop';
+  restarts: number;  // Automatic restarts since the app was last started by hand
+  // Set when the process exits
+  exitCode?: number | null;
+  signal?: string | null;
+  exitedAt?: string;
 }
 
+export interface CrashRecord {
+  project: string;
+  app: string;
+  pid: number;
+  exitCode: number | null;
+  signal: string | null;
+  exitedAt: string;
+  lastLines: string[];  // Log output leading up to the crash
+}
+
+// A project counts as running while any of its apps runs. Apps stopped on their
+// own stay in `processes` with status 'stopped'; apps never started are absent.
 export interface ProjectState {
-  dopplerConfig: DopplerConfig;
+  secrets: SecretsSelection;
+  profile?: string;  // Profile it was started with; absent means "all"
   startedAt: string;
   processes: Record<string, ProcessInfo>;
 }
 
+// Shape of state.json. Changing it needs a migration in state-migrations.ts.
 export interface AppState {
-  // Legacy field for backwards compatibility - will be migrated
-  activeProject?: string | null;
-  dopplerConfig: DopplerConfig;
-  startedAt?: string | null;
-  processes?: Record<string, ProcessInfo>;
-  // New multi-project state
+  version: number;
+  // Default secrets picked in the dashboard; until then the config's provider is used
+  secrets?: SecretsSelection;
+  // Last secrets picked for each project alias
+  secretsChoices?: Record<string, SecretsSelection>;
+  // Last profile picked for each project alias
+  profileChoices?: Record<string, string>;
   activeProjects: Record<string, ProjectState>;
+  // Stable project index per discovered worktree path, so ports survive worktree changes
+  projectIndices?: Record<string, number>;
+  // Port leased to each "projectAlias:appName"
+  portLeases: Record<string, number>;
+  // Worktrees created from the dashboard when discovery is not configured
+  worktreeSlots?: Project[];
+  // Crash history keyed by "projectAlias:appName", newest last
+  crashes?: Record<string, CrashRecord[]>;
 }
 
 const DEFAULT_STATE: AppState = {
-  dopplerConfig: 'dev',
+  version: STATE_VERSION,
+  portLeases: {},
   activeProjects: {},
 };
 
+const MAX_CRASHES_PER_APP = 20;
+
+const LOCK_RETRY_MS = 20;
+// A lock held this long belongs to a process that hung or died mid-update
+const STALE_LOCK_MS = 10_000;
+
+// Updates from this process, chained so each one runs after the previous
+let updateQueue: Promise<unknown> = Promise.resolve();
+let tempFileCounter = 0;
+// State files moved aside since takeStateNotices() was last called
+let stateNotices: string[] = [];
+
 export async function ensureStateDir(): Promise<void> {
   if (!existsSync(STATE_DIR)) {
     await mkdir(STATE_DIR, { recursive: true });
   }
 }
 
+/**
+ * Move an unreadable state file aside as state.json.bak-<timestamp>, unless it
+ * was replaced meanwhile
+ */
+async function backUpStateFile(content: string, reason: string): Promise<void> {
+  const backup = `${STATE_FILE}.bak-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+  try {
+    if ((await readFile(STATE_FILE, 'utf-8')) !== content) return;
+    await rename(STATE_FILE, backup);
+    stateNotices.push(`${reason}; moved state.json to ${backup} and started fresh`);
+  } catch {
+    // Already moved by another process
+  }
+}
+
+/**
+ * Messages about unreadable state files that were backed up, for the caller
+ * to show; each is returned once
+ */
+export function takeStateNotices(): string[] {
+  const notices = stateNotices;
+  stateNotices = [];
+  return notices;
+}
+
 export async function loadState(): Promise<AppState> {
   await ensureStateDir();
 
+  let content: string;
   try {
-    if (existsSync(STATE_FILE)) {
-      const content = await readFile(STATE_FILE, 'utf-8');
-      const parsed = JSON.parse(content);
-
-      // Migrate legacy state format
-      if (parsed.activeProject && !parsed.activeProjects) {
-        const migrated: AppState = {
-          dopplerConfig: parsed.dopplerConfig || 'dev',
-          activeProjects: {},
-        };
-
-        // Migrate the single active project to new format
-        if (parsed.activeProject && parsed.startedAt && parsed.processes) {
-          migrated.activeProjects[parsed.activeProject] = {
-            dopplerConfig: parsed.dopplerConfig || 'dev',
-            startedAt: parsed.startedAt,
-            processes: parsed.processes,
-          };
-        }
-
-        return migrated;
-      }
-
-      return { ...DEFAULT_STATE, ...parsed };
-    }
+    content = await readFile(STATE_FILE, 'utf-8');
   } catch {
-    // Ignore errors, return default state
+    return structuredClone(DEFAULT_STATE); // No state yet
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (err) {
+    await backUpStateFile(content, `state.json is not valid JSON (${(err as Error).message})`);
+    return structuredClone(DEFAULT_STATE);
   }
 
-  return { ...DEFAULT_STATE };
+  try {
+    return { ...structuredClone(DEFAULT_STATE), ...migrateState(parsed) };
+  } catch (err) {
+    await backUpStateFile(content, (err as Error).message);
+    return structuredClone(DEFAULT_STATE);
+  }
 }
 
-export async function saveState(state: AppState): Promise<void> {
+/**
+ * Write the state to a temp file and rename it over the state file, so readers
+ * never see a partly written file
+ */
+async function saveState(state: AppState): Promise<void> {
   await ensureStateDir();
-  await writeFile(STATE_FILE, JSON.stringify(state, null, 2));
+  const tempFile = `${STATE_FILE}.${process.pid}.${tempFileCounter++}.tmp`;
+  try {
+    await writeFile(tempFile, JSON.stringify(state, null, 2));
+    await rename(tempFile, STATE_FILE);
+  } catch (err) {
+    await rm(tempFile, { force: true });
+    throw err;
+  }
 }
 
-export async function updateState(updates: Partial<AppState>): Promise<AppState> {
-  const state = await loadState();
-  const newState = { ...state, ...updates };
-  await saveState(newState);
-  return newState;
+async function isLockStale(): Promise<boolean> {
+  try {
+    const [content, info] = await Promise.all([readFile(STATE_LOCK_FILE, 'utf-8'), stat(STATE_LOCK_FILE)]);
+    if (Date.now() - info.mtimeMs > STALE_LOCK_MS) return true;
+    // Empty between its holder creating it and writing the PID; still held
+    const holder = parseInt(content, 10);
+    return !Number.isNaN(holder) && !isProcessRunning(holder);
+  } catch {
+    return false; // Released meanwhile, or not written yet
+  }
+}
+
+/**
+ * Take the lock that keeps other cubicli processes out of the state file: a
+ * file created exclusively, holding our PID. Waits for the holder to release it,
+ * breaking locks left by dead or hung processes.
+ */
+async function acquireStateLock(): Promise<void> {
+  for (;;) {
+    try {
+      await writeFile(STATE_LOCK_FILE, String(process.pid), { flag: 'wx' });
+      return;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+    }
+
+    if (await isLockStale()) {
+      await rm(STATE_LOCK_FILE, { force: true });
+    } else {
+      await Bun.sleep(LOCK_RETRY_MS);
+    }
+  }
+}
+
+async function releaseStateLock(): Promise<void> {
+  // Leave a lock alone that another process broke and took over
+  const holder = await readFile(STATE_LOCK_FILE, 'utf-8').catch(() => null);
+  if (holder === String(process.pid)) {
+    await rm(STATE_LOCK_FILE, { force: true });
+  }
+}
+
+/**
+ * Run `write` once earlier writes from this process are done and while holding
+ * the lock against other cubicli processes
+ */
+function withStateLock<T>(write: () => Promise<T>): Promise<T> {
+  const run = updateQueue.then(async () => {
+    await ensureStateDir();
+    await acquireStateLock();
+    try {
+      return await write();
+    } finally {
+      await releaseStateLock();
+    }
+  });
+  updateQueue = run.catch(() => {});
+  return run;
+}
+
+/**
+ * Change the state file. `mutate` edits the freshly loaded state in place and
+ * the result is saved. Updates run one at a time, within this process and
+ * across cubicli processes, so none overwrites another. `mutate` must not call
+ * updateState itself, and should not wait on anything slow.
+ */
+export function updateState<T>(mutate: (state: AppState) => T | Promise<T>): Promise<T> {
+  return withStateLock(async () => {
+    const state = await loadState();
+    const result = await mutate(state);
+    await saveState(state);
+    return result;
+  });
 }
 
 export async function clearState(): Promise<void> {
-  await saveState(DEFAULT_STATE);
+  await withStateLock(() => saveState(structuredClone(DEFAULT_STATE)));
+}
+
+/**
+ * Append a crash to an app's history, dropping the oldest beyond the limit
+ */
+export function recordCrash(state: AppState, crash: CrashRecord): void {
+  const key = `${crash.project}:${crash.app}`;
+  const crashes = state.crashes ?? {};
+  crashes[key] = [...(crashes[key] ?? []), crash].slice(-MAX_CRASHES_PER_APP);
+  state.crashes = crashes;
+}
+
+/**
+ * Get crashes across all projects and apps, newest first
+ */
+export function getRecentCrashes(state: AppState): CrashRecord[] {
+  return Object.values(state.crashes ?? {})
+    .flat()
+    .sort((a, b) => b.exitedAt.localeCompare(a.exitedAt));
 }
 
 export function isProcessRunning(pid: number): boolean {
@@ -96,12 +264,79 @@ export function isProcessRunning(pid: number): boolean {
   }
 }
 
-export interface ProcessStats {
+/**
+ * Start time and command line of a running process, or null if it isn't running.
+ * Read from /proc on Linux, elsewhere from ps.
+ */
+export async function getProcessIdentity(pid: number): Promise<ProcessIdentity | null> {
+  if (isProcAvailable()) {
+    const identity = await getProcIdentity(pid);
+    if (identity) return identity;
+  }
+
+  try {
+    // lstart is always five words, e.g. "Sat Oct 18 21:04:07 2026"
+    const proc = Bun.spawn(['ps', '-p', pid.toString(), '-o', 'lstart=,command='], {
+      stdout: 'pipe',
+      stderr: 'pipe',
+    });
+    const output = await new Response(proc.stdout).text();
+    await proc.exited;
+
+    const match = output.trim().match(/^(\S+\s+\S+\s+\S+\s+\S+\s+\S+)\s+(.*)$/);
+    return match ? { startTime: match[1], command: match[2] } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a recorded PID still belongs to the process cubicli started, rather
+ * than one that reused the PID after it exited (e.g. across a reboot). Only the
+ * start time is compared: the command line changes when a launcher like `env` or
+ * `bun run` execs into the app. Records without an identity only get the liveness check.
+ */
+export async function isSameProcess(pid: number, identity: ProcessIdentity | undefined): Promise<boolean> {
+  if (!identity) return isProcessRunning(pid);
+  const current = await getProcessIdentity(pid);
+  return current !== null && current.startTime === identity.startTime;
+}
+
+export interface ProcessUsage {
+  pid: number;
+  command: string;
   cpu: number;  // percentage
   memory: number;  // MB
 }
 
-export async function getProcessStats(pid: number): Promise<ProcessStats | null> {
+export interface ProcessStats {
+  cpu: number;  // percentage, including child processes where they can be read
+  memory: number;  // MB, likewise
+  processes?: ProcessUsage[];  // Per-process breakdown, root first (Linux only)
+}
+
+/**
+ * Get CPU and memory for each PID. On Linux this covers each PID's whole process
+ * tree, read from /proc; elsewhere it asks ps about the PID alone.
+ */
+export async function getProcessStats(pids: number[]): Promise<Map<number, ProcessStats>> {
+  if (isProcAvailable()) {
+    try {
+      return await getProcTreeStats(pids);
+    } catch {
+      // /proc unreadable (e.g. sandboxed); fall back to ps
+    }
+  }
+
+  const stats = new Map<number, ProcessStats>();
+  for (const pid of pids) {
+    const pidStats = await getProcessStatsFromPs(pid);
+    if (pidStats) stats.set(pid, pidStats);
+  }
+  return stats;
+}
+
+async function getProcessStatsFromPs(pid: number): Promise<ProcessStats | null> {
   try {
     // Use ps command to get CPU and memory usage (works on macOS and Linux)
     const proc = Bun.spawn(['ps', '-p', pid.toString(), '-o', '%cpu=,rss='], {
@@ -126,18 +361,34 @@ export async function getProcessStats(pid: number): Promise<ProcessStats | null>
   return null;
 }
 
-export async function verifyRunningProcesses(): Promise<AppState> {
-  const state = await loadState();
+/**
+ * PIDs of recorded apps that still run the process cubicli started
+ */
+export async function findLiveProcesses(state: AppState): Promise<Set<number>> {
+  const live = new Set<number>();
+  for (const projectState of Object.values(state.activeProjects)) {
+    for (const info of Object.values(projectState.processes)) {
+      if (info.status !== 'stopped' && (await isSameProcess(info.pid, info.identity))) {
+        live.add(info.pid);
+      }
+    }
+  }
+  return live;
+}
 
-  let changed = false;
+/**
+ * Mark apps whose process is gone (or whose PID now belongs to another process)
+ * as stopped, and drop projects with nothing left running. `live` comes from
+ * findLiveProcesses(); a state mutation, for stateStore.update().
+ */
+export function verifyRunningProcesses(state: AppState, live: Set<number>): void {
   const projectsToRemove: string[] = [];
 
   for (const [projectAlias, projectState] of Object.entries(state.activeProjects)) {
     for (const [appName, info] of Object.entries(projectState.processes)) {
-      // Check any non-stopped process - if PID is dead, mark as stopped
-      if (info.status !== 'stopped' && !isProcessRunning(info.pid)) {
+      // Check any non-stopped process - if it's no longer ours, mark as stopped
+      if (info.status !== 'stopped' && !live.has(info.pid)) {
         projectState.processes[appName] = { ...info, status: 'stopped' };
-        changed = true;
       }
     }
 
@@ -145,7 +396,6 @@ export async function verifyRunningProcesses(): Promise<AppState> {
     const allStopped = Object.values(projectState.processes).every(p => p.status === 'stopped');
     if (allStopped) {
       projectsToRemove.push(projectAlias);
-      changed = true;
     }
   }
 
@@ -153,18 +403,22 @@ export async function verifyRunningProcesses(): Promise<AppState> {
   for (const alias of projectsToRemove) {
     delete state.activeProjects[alias];
   }
-
-  if (changed) {
-    await saveState(state);
-  }
-
-  return state;
 }
 
 /**
- * Get all PIDs using a specific port using multiple methods
+ * Get the PIDs holding a port. On Linux these are the processes listening on it,
+ * read from /proc; elsewhere lsof also reports processes connected to it.
+ * Meant for finding owners before clearing a port, not for frequent polling.
  */
 export async function getPidsOnPort(port: number): Promise<number[]> {
+  if (isProcAvailable()) {
+    try {
+      return await getListeningPidsFromProc(port);
+    } catch {
+      // /proc unreadable; fall back to lsof
+    }
+  }
+
   const pids = new Set<number>();
 
   // Method 1: lsof
@@ -211,17 +465,16 @@ export async function getPidsOnPort(port: number): Promise<number[]> {
 }
 
 /**
- * Check if a port is currently in use
+ * Check if something is listening on a port, with an in-process TCP connect
  */
 export async function isPortInUse(port: number): Promise<boolean> {
-  const pids = await getPidsOnPort(port);
-  return pids.length > 0;
+  return checkTcp(port, PORT_CHECK_TIMEOUT_MS);
 }
 
 /**
  * Kill a single process with SIGTERM then SIGKILL
  */
-async function killProcess(pid: number): Promise<void> {
+export async function killProcess(pid: number): Promise<void> {
   try {
     process.kill(pid, 'SIGTERM');
   } catch {
@@ -248,34 +501,60 @@ async function killProcess(pid: number): Promise<void> {
   }
 }
 
-/**
- * Kill all processes using a specific port with retries
- */
-export async function killProcessesOnPort(port: number): Promise<void> {
-  const maxAttempts = 3;
-
-  for (let attempt = 0; attempt < maxAttempts; attempt++) {
-    const pids = await getPidsOnPort(port);
-    if (pids.length === 0) return;
-
-    // Kill all found processes
-    await Promise.all(pids.map((pid) => killProcess(pid)));
+export interface ProcessDetails {
+  pid: number;
+  ppid: number;
+  pgid: number;
+  command: string;
+  cwd: string | null;
+}
 
-    // Wait and verify
-    await new Promise((resolve) => setTimeout(resolve, 300));
+async function getCwdFromLsof(pid: number): Promise<string | null> {
+  try {
+    // -Fn prints the cwd as "n<path>"
+    const proc = Bun.spawn(['lsof', '-a', '-p', pid.toString(), '-d', 'cwd', '-Fn'], {
+      stdout: 'pipe',
+      stderr: 'pipe',
+    });
+    const output = await new Response(proc.stdout).text();
+    await proc.exited;
+    const cwdLine = output.split('\n').find((line) => line.startsWith('n'));
+    return cwdLine ? cwdLine.slice(1) : null;
+  } catch {
+    return null;
+  }
+}
 
-    // Check if port is now free
-    if (!(await isPortInUse(port))) return;
+/**
+ * Look up a process's parent, process group, command line and working directory.
+ * Read from /proc on Linux, elsewhere from ps and lsof.
+ */
+export async function getProcessDetails(pid: number): Promise<ProcessDetails | null> {
+  if (isProcAvailable()) {
+    const details = await getProcDetails(pid);
+    return details && { ...details, cwd: await getCwdFromProc(pid) };
   }
 
-  // Last resort: use fuser to force kill
   try {
-    await Bun.spawn(['fuser', '-k', `${port}/tcp`], {
+    const proc = Bun.spawn(['ps', '-p', pid.toString(), '-o', 'ppid=,pgid=,command='], {
       stdout: 'pipe',
       stderr: 'pipe',
-    }).exited;
+    });
+    const output = await new Response(proc.stdout).text();
+    await proc.exited;
+
+    const match = output.trim().match(/^(\d+)\s+(\d+)\s+(.*)$/);
+    if (!match) return null;
+
+    return {
+      pid,
+      ppid: parseInt(match[1], 10),
+      pgid: parseInt(match[2], 10),
+      command: match[3],
+      cwd: await getCwdFromLsof(pid),
+    };
   } catch {
-    // fuser might not be available
+    return null;
   }
 }
 
@@ -317,37 +596,3 @@ export async function isPortActuallyFree(port: number): Promise<boolean> {
     }
   });
 }
-
-/**
- * Ensure all specified ports are available by killing any processes using them
- */
-export async function ensurePortsAvailable(ports: number[]): Promise<void> {
-  const maxRetries = 5;
-
-  for (let retry = 0; retry < maxRetries; retry++) {
-    // Kill processes on all ports
-    await Promise.all(ports.map((port) => killProcessesOnPort(port)));
-
-    // Give OS time to release the ports
-    await new Promise((resolve) => setTimeout(resolve, 500));
-
-    // Verify all ports are actually free using TCP binding test
-    let allFree = true;
-    for (const port of ports) {
-      if (!(await isPortActuallyFree(port))) {
-        allFree = false;
-        break;
-      }
-    }
-
-    if (allFree) {
-      return; // Success - all ports are free
-    }
-
-    // Wait longer before next retry
-    await new Promise((resolve) => setTimeout(resolve, 1000));
-  }
-
-  // Last resort - throw an error or just continue and hope for the best
-  // We'll log a warning but continue anyway
-}
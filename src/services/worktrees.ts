@@ -0,0 +1,54 @@
+import { basename, dirname } from 'path';
+import type { Project } from '../config/projects';
+import { addWorktree, getGitStatus, removeWorktree } from './git';
+import { processManager } from './process-manager';
+import { releaseProjectPorts } from './ports';
+import { registerWorktree, unregisterWorktree } from './projects';
+
+/**
+ * Turn a branch name into a directory suffix, e.g. "remotes/origin/feat/x" -> "feat-x"
+ */
+function branchSlug(branch: string): string {
+  return branch
+    .replace(/^remotes\/[^/]+\//, '')
+    .replace(/[^a-zA-Z0-9._-]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Check out a branch into a new sibling directory of the root repo and
+ * register it as a project slot
+ */
+export async function createWorktreeSlot(rootPath: string, branch: string): Promise<Project> {
+  const rootName = basename(rootPath);
+  const worktreePath = `${dirname(rootPath)}/${rootName}-${branchSlug(branch)}`;
+
+  await addWorktree(rootPath, worktreePath, branch);
+
+  const project = await registerWorktree(worktreePath, rootName);
+  if (!project) {
+    throw new Error(`Worktree created at ${worktreePath} but could not be registered`);
+  }
+  return project;
+}
+
+/**
+ * Stop a project, remove its worktree and clean up its logs and nx daemon dir.
+ * Refuses to touch worktrees with uncommitted changes.
+ */
+export async function removeWorktreeSlot(rootPath: string, project: Project): Promise<void> {
+  if (project.path === rootPath) {
+    throw new Error(`${project.alias} is the main worktree`);
+  }
+
+  const git = await getGitStatus(project.path);
+  if (git.isDirty) {
+    throw new Error(`${project.alias} has uncommitted changes`);
+  }
+
+  await processManager.stopProject(project.alias);
+  await removeWorktree(rootPath, project.path);
+  await processManager.removeProjectFiles(project.alias);
+  await releaseProjectPorts(project.alias);
+  await unregisterWorktree(project.path);
+}
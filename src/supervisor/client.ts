@@ -0,0 +1,317 @@
+import { closeSync, openSync } from 'fs';
+import { mkdir } from 'fs/promises';
+import { LOG_DIR, SUPERVISOR_LOG_FILE, SUPERVISOR_SOCKET, type AppConfig, type Project, type SecretsSelection } from '../config/projects';
+import { getConfig } from '../config/loader';
+import type { LogBuffer } from '../services/process-manager';
+import type { PortConflict, PortResolution } from '../services/ports';
+import type { ProcessInfo, ProcessStats } from '../services/state';
+import {
+  Connection,
+  isSupervisorRunning,
+  type SupervisorMessage,
+  type SupervisorMethod,
+  type SupervisorMethods,
+  type SupervisorSnapshot,
+} from './protocol';
+
+const SPAWN_TIMEOUT_MS = 10_000;
+const SPAWN_POLL_MS = 100;
+
+type ServerConnection = Connection<SupervisorMessage>;
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (err: Error) => void;
+}
+
+/**
+ * A TUI's view of the supervisor. Mirrors the process manager's API: commands
+ * are forwarded over the socket, and status getters read the latest snapshot.
+ */
+export class SupervisorClient {
+  private connection?: ServerConnection;
+  private nextId = 1;
+  private pending: Map<number, PendingRequest> = new Map();
+  private snapshot: SupervisorSnapshot = { apps: {}, runningProjects: [] };
+  // Key format: "projectAlias:appName"; only apps whose logs were viewed
+  private logBuffers: Map<string, LogBuffer> = new Map();
+  private loadingLogs: Set<string> = new Set();
+  private onLogUpdate?: (projectAlias: string, appName: string, line: string, didShift: boolean) => void;
+  private onDisconnect?: () => void;
+
+  async connect(): Promise<void> {
+    await Bun.connect<ServerConnection>({
+      unix: SUPERVISOR_SOCKET,
+      socket: {
+        open: (socket) => {
+          socket.data = new Connection<SupervisorMessage>(socket, (message) => this.handleMessage(message));
+          this.connection = socket.data;
+        },
+        data: (socket, data) => socket.data.receive(data),
+        drain: (socket) => socket.data.flush(),
+        close: () => this.handleClose(),
+        error: () => this.handleClose(),
+      },
+    });
+  }
+
+  /**
+   * Detach from the supervisor, leaving its apps running
+   */
+  disconnect(): void {
+    this.onDisconnect = undefined;
+    this.connection?.close();
+  }
+
+  setLogUpdateHandler(handler: (projectAlias: string, appName: string, line: string, didShift: boolean) => void): void {
+    this.onLogUpdate = handler;
+  }
+
+  setDisconnectHandler(handler: () => void): void {
+    this.onDisconnect = handler;
+  }
+
+  startProject(
+    project: Project,
+    secrets: SecretsSelection,
+    profile?: string,
+    portResolutions?: Record<string, PortResolution>
+  ): Promise<void> {
+    return this.request('startProject', { project, secrets, profile, portResolutions });
+  }
+
+  /**
+   * Find apps of a profile whose ports are held by processes cubicli didn't start
+   */
+  checkPorts(project: Project, profile?: string, appName?: string): Promise<PortConflict[]> {
+    return this.request('checkPorts', { project, profile, appName });
+  }
+
+  stopProject(alias: string): Promise<void> {
+    return this.request('stopProject', { alias });
+  }
+
+  restartProject(project: Project, secrets: SecretsSelection, profile?: string): Promise<void> {
+    return this.request('restartProject', { project, secrets, profile });
+  }
+
+  startApp(
+    appName: string,
+    project: Project,
+    secrets: SecretsSelection,
+    portResolutions?: Record<string, PortResolution>
+  ): Promise<void> {
+    return this.request('startApp', { appName, project, secrets, portResolutions });
+  }
+
+  stopApp(appName: string, alias: string): Promise<void> {
+    return this.request('stopApp', { appName, alias });
+  }
+
+  restartApp(appName: string, project: Project, secrets: SecretsSelection): Promise<void> {
+    return this.request('restartApp', { appName, project, secrets });
+  }
+
+  startAllProjects(secrets: SecretsSelection, profile?: string): Promise<void> {
+    return this.request('startAllProjects', { secrets, profile });
+  }
+
+  stopAllProjects(): Promise<void> {
+    return this.request('stopAllProjects', {});
+  }
+
+  /**
+   * Check out a branch into a new worktree and register it as a project
+   */
+  createWorktree(rootPath: string, branch: string): Promise<Project> {
+    return this.request('createWorktree', { rootPath, branch });
+  }
+
+  /**
+   * Stop the worktree's apps and delete it; the supervisor owns its processes
+   */
+  removeWorktree(rootPath: string, project: Project): Promise<void> {
+    return this.request('removeWorktree', { rootPath, project });
+  }
+
+  /**
+   * Stop every project and the supervisor itself
+   */
+  shutdown(): Promise<void> {
+    return this.request('shutdown', {});
+  }
+
+  /**
+   * Get an app's log lines. The first call for an app fetches its backlog
+   * from the supervisor and returns an empty buffer until it arrives.
+   */
+  getLogBuffer(projectAlias: string, appName: string): LogBuffer {
+    const key = `${projectAlias}:${appName}`;
+    const buffer = this.logBuffers.get(key);
+    if (buffer) return buffer;
+
+    if (!this.loadingLogs.has(key)) {
+      this.loadingLogs.add(key);
+      this.request('getLogs', { alias: projectAlias, app: appName })
+        .then((lines) => {
+          this.logBuffers.set(key, { lines, searchMatches: [] });
+          const lastLine = lines[lines.length - 1];
+          if (lastLine !== undefined) {
+            this.onLogUpdate?.(projectAlias, appName, lastLine, false);
+          }
+        })
+        .catch(() => {})
+        .finally(() => this.loadingLogs.delete(key));
+    }
+    return { lines: [], searchMatches: [] };
+  }
+
+  getStats(projectAlias: string, appName: string): ProcessStats | undefined {
+    return this.snapshot.apps[`${projectAlias}:${appName}`]?.stats;
+  }
+
+  isRunning(): boolean {
+    return this.snapshot.runningProjects.length > 0;
+  }
+
+  isProjectRunning(projectAlias: string): boolean {
+    return this.snapshot.runningProjects.includes(projectAlias);
+  }
+
+  isAppRunning(projectAlias: string, appName: string): boolean {
+    return this.snapshot.apps[`${projectAlias}:${appName}`]?.running ?? false;
+  }
+
+  getAppStatus(projectAlias: string, appName: string): ProcessInfo['status'] | undefined {
+    return this.snapshot.apps[`${projectAlias}:${appName}`]?.status;
+  }
+
+  getHealthyAppCount(projectAlias: string, apps: AppConfig[] = getConfig().apps): { healthy: number; total: number } {
+    const healthy = apps.filter((app) => this.getAppStatus(projectAlias, app.name) === 'running').length;
+    return { healthy, total: apps.length };
+  }
+
+  isAppListening(projectAlias: string, appName: string): boolean {
+    return this.snapshot.apps[`${projectAlias}:${appName}`]?.listening ?? false;
+  }
+
+  getRunningAppCount(projectAlias: string): { running: number; total: number } {
+    const { apps } = getConfig();
+    const running = apps.filter((app) => this.isAppRunning(projectAlias, app.name)).length;
+    return { running, total: apps.length };
+  }
+
+  getRunningProjects(): string[] {
+    return this.snapshot.runningProjects;
+  }
+
+  private request<M extends SupervisorMethod>(
+    method: M,
+    params: SupervisorMethods[M]['params']
+  ): Promise<SupervisorMethods[M]['result']> {
+    const connection = this.connection;
+    if (!connection) {
+      return Promise.reject(new Error('Not connected to the supervisor'));
+    }
+
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve: resolve as (result: unknown) => void, reject });
+      connection.send({ id, method, params });
+    });
+  }
+
+  private handleMessage(message: SupervisorMessage): void {
+    switch (message.type) {
+      case 'response': {
+        const request = this.pending.get(message.id);
+        if (!request) return;
+        this.pending.delete(message.id);
+        if (message.error !== undefined) {
+          request.reject(new Error(message.error));
+        } else {
+          request.resolve(message.result);
+        }
+        break;
+      }
+
+      case 'snapshot':
+        this.snapshot = message.snapshot;
+        break;
+
+      case 'log': {
+        // Lines for apps still loading are part of the backlog being fetched
+        const buffer = this.logBuffers.get(`${message.project}:${message.app}`);
+        if (!buffer) return;
+        buffer.lines.push(message.line);
+        if (message.didShift) {
+          buffer.lines.shift();
+        }
+        this.onLogUpdate?.(message.project, message.app, message.line, message.didShift);
+        break;
+      }
+
+      case 'log-cleared':
+        this.logBuffers.set(`${message.project}:${message.app}`, { lines: [], searchMatches: [] });
+        break;
+
+      case 'shutdown':
+        this.handleClose();
+        break;
+    }
+  }
+
+  private handleClose(): void {
+    if (!this.connection) return;
+    this.connection = undefined;
+
+    for (const request of this.pending.values()) {
+      request.reject(new Error('Supervisor connection closed'));
+    }
+    this.pending.clear();
+    this.onDisconnect?.();
+  }
+}
+
+/**
+ * Start a detached supervisor in the background and wait until it accepts connections.
+ * It serves every later client, so it runs from the home directory instead of
+ * picking up the .cubicli.json of wherever the first client ran.
+ */
+async function spawnSupervisor(): Promise<void> {
+  await mkdir(LOG_DIR, { recursive: true });
+  const logFd = openSync(SUPERVISOR_LOG_FILE, 'a');
+  let proc: Bun.Subprocess;
+  try {
+    proc = Bun.spawn([process.execPath, process.argv[1], 'supervisor'], {
+      cwd: process.env.HOME,
+      stdin: 'ignore',
+      stdout: logFd,
+      stderr: logFd,
+      detached: true,
+    });
+  } finally {
+    closeSync(logFd);
+  }
+  proc.unref();
+
+  const deadline = Date.now() + SPAWN_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    if (await isSupervisorRunning(SUPERVISOR_SOCKET)) return;
+    if (proc.exitCode !== null) break;
+    await Bun.sleep(SPAWN_POLL_MS);
+  }
+  throw new Error(`Supervisor did not start, see ${SUPERVISOR_LOG_FILE}`);
+}
+
+/**
+ * Connect to the running supervisor, starting one first if there is none
+ */
+export async function connectToSupervisor(): Promise<SupervisorClient> {
+  if (!(await isSupervisorRunning(SUPERVISOR_SOCKET))) {
+    await spawnSupervisor();
+  }
+  const client = new SupervisorClient();
+  await client.connect();
+  return client;
+}
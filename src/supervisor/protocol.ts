@@ -0,0 +1,129 @@
+import type { Project, SecretsSelection } from '../config/projects';
+import type { PortConflict, PortResolution } from '../services/ports';
+import type { ProcessInfo, ProcessStats } from '../services/state';
+
+/**
+ * Commands a client can send to the supervisor, with their params and results
+ */
+export interface SupervisorMethods {
+  startProject: {
+    params: { project: Project; secrets: SecretsSelection; profile?: string; portResolutions?: Record<string, PortResolution> };
+    result: void;
+  };
+  stopProject: { params: { alias: string }; result: void };
+  restartProject: { params: { project: Project; secrets: SecretsSelection; profile?: string }; result: void };
+  startApp: {
+    params: { appName: string; project: Project; secrets: SecretsSelection; portResolutions?: Record<string, PortResolution> };
+    result: void;
+  };
+  stopApp: { params: { appName: string; alias: string }; result: void };
+  restartApp: { params: { appName: string; project: Project; secrets: SecretsSelection }; result: void };
+  startAllProjects: { params: { secrets: SecretsSelection; profile?: string }; result: void };
+  stopAllProjects: { params: Record<string, never>; result: void };
+  createWorktree: { params: { rootPath: string; branch: string }; result: Project };
+  removeWorktree: { params: { rootPath: string; project: Project }; result: void };
+  // With appName: that app and its dependencies instead of the profile's apps
+  checkPorts: { params: { project: Project; profile?: string; appName?: string }; result: PortConflict[] };
+  getLogs: { params: { alias: string; app: string }; result: string[] };
+  shutdown: { params: Record<string, never>; result: void };
+}
+
+export type SupervisorMethod = keyof SupervisorMethods;
+
+export interface SupervisorRequest<M extends SupervisorMethod = SupervisorMethod> {
+  id: number;
+  method: M;
+  params: SupervisorMethods[M]['params'];
+}
+
+export interface AppSnapshot {
+  running: boolean;
+  listening: boolean;
+  status?: ProcessInfo['status'];
+  stats?: ProcessStats;
+}
+
+/**
+ * Live process status the supervisor pushes to every client.
+ * Apps are keyed by "projectAlias:appName".
+ */
+export interface SupervisorSnapshot {
+  apps: Record<string, AppSnapshot>;
+  runningProjects: string[];
+}
+
+export type SupervisorMessage =
+  | { type: 'response'; id: number; result?: unknown; error?: string }
+  | { type: 'snapshot'; snapshot: SupervisorSnapshot }
+  | { type: 'log'; project: string; app: string; line: string; didShift: boolean }
+  | { type: 'log-cleared'; project: string; app: string }
+  | { type: 'shutdown' };
+
+/**
+ * One end of a supervisor socket, exchanging newline-delimited JSON messages.
+ * Writes the socket can't take yet are queued until it drains.
+ */
+export class Connection<Incoming> {
+  private pending: Buffer[] = [];
+  private remainder = '';
+  private decoder = new TextDecoder();
+
+  constructor(
+    private readonly socket: Bun.Socket<unknown>,
+    private readonly onMessage: (message: Incoming) => void
+  ) {}
+
+  send(message: unknown): void {
+    this.pending.push(Buffer.from(JSON.stringify(message) + '\n'));
+    if (this.pending.length === 1) {
+      this.flush();
+    }
+  }
+
+  /**
+   * Write queued messages, stopping when the socket is full
+   */
+  flush(): void {
+    while (this.pending.length > 0) {
+      const chunk = this.pending[0];
+      const written = this.socket.write(chunk);
+      if (written < chunk.length) {
+        this.pending[0] = chunk.subarray(Math.max(0, written));
+        return;
+      }
+      this.pending.shift();
+    }
+  }
+
+  receive(data: Buffer): void {
+    const lines = (this.remainder + this.decoder.decode(data, { stream: true })).split('\n');
+    this.remainder = lines.pop() || '';
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      let message: Incoming;
+      try {
+        message = JSON.parse(line);
+      } catch {
+        continue; // Ignore malformed messages
+      }
+      this.onMessage(message);
+    }
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+}
+
+/**
+ * Check whether a supervisor is accepting connections on the socket
+ */
+export async function isSupervisorRunning(socketPath: string): Promise<boolean> {
+  try {
+    const socket = await Bun.connect({ unix: socketPath, socket: { data() {} } });
+    socket.end();
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,261 @@
+import { mkdir, rm } from 'fs/promises';
+import { STATE_DIR, SUPERVISOR_SOCKET, getProfileApps } from '../config/projects';
+import { getConfig } from '../config/loader';
+import { getTransitiveDependencies } from '../config/dependencies';
+import { getProjects, refreshProjects } from '../services/projects';
+import { createWorktreeSlot, removeWorktreeSlot } from '../services/worktrees';
+import { findLiveProcesses, takeStateNotices, verifyRunningProcesses } from '../services/state';
+import { stateStore } from '../services/state-store';
+import { processManager } from '../services/process-manager';
+import { findPortConflicts } from '../services/ports';
+import {
+  Connection,
+  isSupervisorRunning,
+  type SupervisorMessage,
+  type SupervisorMethods,
+  type SupervisorRequest,
+  type SupervisorSnapshot,
+} from './protocol';
+
+const REFRESH_INTERVAL_MS = 1000;
+// How often (in refresh ticks) to re-discover projects from git worktrees
+const PROJECT_REFRESH_TICKS = 5;
+
+type ClientConnection = Connection<SupervisorRequest>;
+
+/**
+ * Long-running process that owns the process manager, state and log buffers.
+ * TUI windows attach over a Unix socket; detaching leaves every app running.
+ */
+export class SupervisorServer {
+  private listener?: Bun.UnixSocketListener<ClientConnection>;
+  private clients: Set<ClientConnection> = new Set();
+  private refreshInterval?: Timer;
+  private refreshing = false;
+  private refreshTick = 0;
+  private shuttingDown = false;
+
+  async start(): Promise<void> {
+    if (await isSupervisorRunning(SUPERVISOR_SOCKET)) {
+      throw new Error(`A supervisor is already running on ${SUPERVISOR_SOCKET}`);
+    }
+    await mkdir(STATE_DIR, { recursive: true });
+    // Left behind by a supervisor that didn't shut down cleanly
+    await rm(SUPERVISOR_SOCKET, { force: true });
+
+    // Pick up apps started by a previous supervisor
+    await refreshProjects();
+    const live = await findLiveProcesses(await stateStore.read());
+    await stateStore.update((state) => verifyRunningProcesses(state, live));
+    await processManager.adoptRunningProcesses();
+
+    processManager.setLogUpdateHandler((project, app, line, didShift) => {
+      this.broadcast({ type: 'log', project, app, line, didShift });
+    });
+    processManager.setLogClearHandler((project, app) => {
+      this.broadcast({ type: 'log-cleared', project, app });
+    });
+
+    this.listener = Bun.listen<ClientConnection>({
+      unix: SUPERVISOR_SOCKET,
+      socket: {
+        open: (socket) => {
+          socket.data = new Connection<SupervisorRequest>(socket, (request) => this.handleRequest(socket.data, request));
+          this.clients.add(socket.data);
+          socket.data.send({ type: 'snapshot', snapshot: this.getSnapshot() });
+        },
+        data: (socket, data) => socket.data.receive(data),
+        drain: (socket) => socket.data.flush(),
+        close: (socket) => {
+          this.clients.delete(socket.data);
+        },
+        error: (socket) => {
+          this.clients.delete(socket.data);
+        },
+      },
+    });
+
+    this.refreshInterval = setInterval(() => this.refresh(), REFRESH_INTERVAL_MS);
+    this.logStateNotices();
+  }
+
+  /**
+   * Stop every project, tell attached clients and exit
+   */
+  async shutdown(): Promise<void> {
+    if (this.shuttingDown) return;
+    this.shuttingDown = true;
+
+    if (this.refreshInterval) {
+      clearInterval(this.refreshInterval);
+    }
+    await processManager.stopAllProjects();
+    await stateStore.close();
+
+    this.broadcast({ type: 'shutdown' });
+    this.listener?.stop(true);
+    await rm(SUPERVISOR_SOCKET, { force: true });
+    process.exit(0);
+  }
+
+  private async refresh(): Promise<void> {
+    // Stats collection can take longer than one interval
+    if (this.refreshing) return;
+    this.refreshing = true;
+
+    try {
+      this.refreshTick++;
+      if (this.refreshTick >= PROJECT_REFRESH_TICKS) {
+        this.refreshTick = 0;
+        await refreshProjects();
+      }
+      await processManager.updateStats();
+      this.logStateNotices();
+      this.broadcastSnapshot();
+    } finally {
+      this.refreshing = false;
+    }
+  }
+
+  /**
+   * Note backed-up state files in the supervisor log
+   */
+  private logStateNotices(): void {
+    for (const notice of takeStateNotices()) {
+      console.error(`cubicli: ${notice}`);
+    }
+  }
+
+  private async handleRequest(client: ClientConnection, request: SupervisorRequest): Promise<void> {
+    try {
+      const result = await this.dispatch(request);
+      // Clients and CLI commands read state.json right after a command returns. A log
+      // backlog goes out at once, so no line is logged between taking it and sending it.
+      if (request.method !== 'getLogs') {
+        await stateStore.flush();
+      }
+      client.send({ type: 'response', id: request.id, result });
+    } catch (err) {
+      client.send({ type: 'response', id: request.id, error: (err as Error).message });
+    }
+    this.broadcastSnapshot();
+
+    if (request.method === 'shutdown') {
+      await this.shutdown();
+    }
+  }
+
+  private async dispatch(request: SupervisorRequest): Promise<unknown> {
+    switch (request.method) {
+      case 'startProject': {
+        const { project, secrets, profile, portResolutions } = request.params as SupervisorMethods['startProject']['params'];
+        return processManager.startProject(project, secrets, profile, portResolutions);
+      }
+      case 'stopProject': {
+        const { alias } = request.params as SupervisorMethods['stopProject']['params'];
+        return processManager.stopProject(alias);
+      }
+      case 'restartProject': {
+        const { project, secrets, profile } = request.params as SupervisorMethods['restartProject']['params'];
+        return processManager.restartProject(project, secrets, profile);
+      }
+      case 'startApp': {
+        const { appName, project, secrets, portResolutions } = request.params as SupervisorMethods['startApp']['params'];
+        return processManager.startApp(appName, project, secrets, portResolutions);
+      }
+      case 'stopApp': {
+        const { appName, alias } = request.params as SupervisorMethods['stopApp']['params'];
+        return processManager.stopApp(appName, alias);
+      }
+      case 'restartApp': {
+        const { appName, project, secrets } = request.params as SupervisorMethods['restartApp']['params'];
+        return processManager.restartApp(appName, project, secrets);
+      }
+      case 'startAllProjects': {
+        const { secrets, profile } = request.params as SupervisorMethods['startAllProjects']['params'];
+        return processManager.startAllProjects(secrets, profile);
+      }
+      case 'stopAllProjects':
+        return processManager.stopAllProjects();
+      case 'createWorktree': {
+        const { rootPath, branch } = request.params as SupervisorMethods['createWorktree']['params'];
+        const project = await createWorktreeSlot(rootPath, branch);
+        await refreshProjects();
+        return project;
+      }
+      case 'removeWorktree': {
+        const { rootPath, project } = request.params as SupervisorMethods['removeWorktree']['params'];
+        await removeWorktreeSlot(rootPath, project);
+        await refreshProjects();
+        return;
+      }
+      case 'checkPorts': {
+        const { project, profile, appName } = request.params as SupervisorMethods['checkPorts']['params'];
+        const { apps } = getConfig();
+        const app = apps.find(a => a.name === appName);
+        return findPortConflicts(project, app ? [...getTransitiveDependencies(app, apps), app] : getProfileApps(profile));
+      }
+      case 'getLogs': {
+        const { alias, app } = request.params as SupervisorMethods['getLogs']['params'];
+        return processManager.getLogBuffer(alias, app).lines;
+      }
+      case 'shutdown':
+        return;
+      default:
+        throw new Error(`Unknown supervisor method "${request.method}"`);
+    }
+  }
+
+  private getSnapshot(): SupervisorSnapshot {
+    const runningProjects = processManager.getRunningProjects();
+    const aliases = new Set([...getProjects().map(p => p.alias), ...runningProjects]);
+    const apps: SupervisorSnapshot['apps'] = {};
+
+    for (const alias of aliases) {
+      for (const app of getConfig().apps) {
+        apps[`${alias}:${app.name}`] = {
+          running: processManager.isAppRunning(alias, app.name),
+          listening: processManager.isAppListening(alias, app.name),
+          status: processManager.getAppStatus(alias, app.name),
+          stats: processManager.getStats(alias, app.name),
+        };
+      }
+    }
+
+    return { apps, runningProjects };
+  }
+
+  private broadcastSnapshot(): void {
+    if (this.clients.size === 0) return;
+    this.broadcast({ type: 'snapshot', snapshot: this.getSnapshot() });
+  }
+
+  private broadcast(message: SupervisorMessage): void {
+    for (const client of this.clients) {
+      client.send(message);
+    }
+  }
+}
+
+/**
+ * Run the supervisor in the foreground until it is shut down
+ */
+export async function runSupervisor(): Promise<void> {
+  const server = new SupervisorServer();
+
+  process.on('SIGINT', () => server.shutdown());
+  process.on('SIGTERM', () => server.shutdown());
+  // Keep running when the terminal that launched us goes away
+  process.on('SIGHUP', () => {});
+
+  // Log and keep supervising; a crash here would orphan every app
+  process.on('uncaughtException', (err) => {
+    console.error('Uncaught exception:', err);
+  });
+  process.on('unhandledRejection', (err) => {
+    console.error('Unhandled rejection:', err);
+  });
+
+  await server.start();
+  console.log(`cubicli supervisor ${process.pid} listening on ${SUPERVISOR_SOCKET}`);
+}
@@ -1,8 +1,15 @@
 import chalk from 'chalk';
-import { PROJECTS, APPS, DOPPLER_CONFIGS, getPortForApp, type DopplerConfig } from '../config/projects';
-import { loadState, verifyRunningProcesses, type AppState } from '../services/state';
-import { getGitStatus } from '../services/git';
-import { processManager } from '../services/process-manager';
+import { ALL_PROFILE, getProfileApps, getProfileNames, type AppConfig, type Project, type SecretsSelection } from '../config/projects';
+import { getConfig } from '../config/loader';
+import { getRecentCrashes, takeStateNotices, type AppState, type CrashRecord, type ProcessInfo } from '../services/state';
+import { getAllBranches, getGitStatus } from '../services/git';
+import { getRootRepo, refreshProjects } from '../services/projects';
+import { STATE_VERSION } from '../services/state-migrations';
+import { stateStore } from '../services/state-store';
+import { acquireInstanceLock, releaseInstanceLock, takeOverInstanceLock, type InstanceLockHolder } from '../services/instance-lock';
+import { formatSecrets, getConfiguredConfigs, getDefaultSelection, getProjectSelection, listSecretsConfigs, resolveSecrets } from '../services/secrets';
+import { getAssignedPort, type PortResolution } from '../services/ports';
+import type { SupervisorClient } from '../supervisor/client';
 import {
   clearScreen,
   hideCursor,
@@ -23,7 +30,7 @@ import {
   enableMouseTracking,
   disableMouseTracking,
 } from './renderer';
-import type { AppUIState, ProjectWithGit, ViewMode } from './types';
+import type { AppUIState, BranchPickerState, ConfigPickerState, PortConflictState, ProjectWithGit, ViewMode } from './types';
 
 // Scroll physics constants
 const SCROLL_BASE_LINES = 3;
@@ -36,6 +43,12 @@ const MAX_SCROLL_VELOCITY = 30;
 // Action feedback duration
 const ACTION_FEEDBACK_MS = 1500;
 
+// How often (in render ticks) to re-discover projects from git worktrees
+const PROJECT_REFRESH_TICKS = 5;
+
+// Dashboard keys that start, stop or change something, ignored while read-only
+const DASHBOARD_CONTROL_KEYS = new Set(['\r', 'c', 'C', 'p', 'r', 'a', 'A', 's', 'S', 'w', 'x']);
+
 // Hebrew keyboard layout mapping (physical key position -> Hebrew character)
 // This allows the app to work regardless of keyboard language
 const HEBREW_TO_ENGLISH: Record<string, string> = {
@@ -43,6 +56,7 @@ const HEBREW_TO_ENGLISH: Record<string, string> = {
   'מ': 'n', 'ט': 'y', 'ש': 'a', 'ד': 's', 'ק': 'e', 'א': 't',
   'ו': 'u', 'ן': 'i', 'ם': 'o', 'פ': 'p', 'ג': 'd', 'ע': 'g',
   'י': 'h', 'ז': 'z', 'ס': 'x', 'ה': 'v', 'נ': 'b', 'צ': 'm',
+  "'": 'w',
   '/': 'q', '.': '/', // Hebrew '/' is on 'q', and '.' can be used for search
 };
 
@@ -68,19 +82,27 @@ export class TUIApp {
   private state: AppUIState;
   private running = false;
   private renderInterval?: Timer;
+  private unsubscribeState?: () => void;
   private mouseTrackingEnabled = false;
   private momentumInterval?: Timer;
   private feedbackTimeout?: Timer;
+  private refreshTick = 0;
 
-  constructor() {
+  /**
+   * `instanceHolder` is the dashboard already open in another window, if any;
+   * the user picks whether to watch read-only, take over or exit
+   */
+  constructor(private readonly supervisor: SupervisorClient, instanceHolder: InstanceLockHolder | null = null) {
     const { rows, cols } = getTerminalSize();
     this.state = {
       viewMode: 'dashboard',
       selectedProjectIndex: 0,
+      selectedAppIndex: null,
       selectedLogApp: 0,
       selectedLogProject: 0,
       logScrollOffset: 0,
       logFollowMode: true,
+      selectedCrashIndex: 0,
       scrollVelocity: 0,
       scrollAccumulator: 0,
       lastScrollTime: 0,
@@ -90,10 +112,19 @@ export class TUIApp {
       searchMatches: [],
       searchMatchIndex: 0,
       quitConfirmMode: false,
+      branchPicker: null,
+      startConfirmProject: null,
+      removeConfirmProject: null,
+      configPicker: null,
+      secretsRestartConfirm: null,
+      portConflict: null,
+      instanceConflict: instanceHolder && { holder: instanceHolder, error: null },
+      readOnly: false,
       projects: [],
       appState: {
-        dopplerConfig: 'dev',
+        version: STATE_VERSION,
         activeProjects: {},
+        portLeases: {},
       },
       terminalWidth: cols,
       terminalHeight: rows,
@@ -104,6 +135,8 @@ export class TUIApp {
 
   async start(): Promise<void> {
     this.running = true;
+    // Nothing is written until the user picks whether to take over
+    stateStore.setReadOnly(this.state.instanceConflict !== null);
 
     // Setup terminal
     saveScreen();
@@ -112,10 +145,7 @@ export class TUIApp {
 
     // Load initial state
     await this.loadProjectsWithGit();
-    this.state.appState = await verifyRunningProcesses();
-
-    // Adopt any running processes from previous session
-    await processManager.adoptRunningProcesses();
+    this.state.appState = await stateStore.read();
 
     // Set the selected project to the first active one if any
     const activeAliases = Object.keys(this.state.appState.activeProjects);
@@ -128,13 +158,13 @@ export class TUIApp {
     this.setupKeyboardInput();
 
     // Setup log update handler
-    processManager.setLogUpdateHandler((projectAlias: string, appName: string, _line: string, didShift: boolean) => {
+    this.supervisor.setLogUpdateHandler((projectAlias: string, appName: string, _line: string, didShift: boolean) => {
       if (this.state.viewMode === 'logs') {
         const currentProject = this.state.projects[this.state.selectedLogProject];
-        const currentApp = APPS[this.state.selectedLogApp].name;
+        const currentApp = getConfig().apps[this.state.selectedLogApp].name;
         if (currentProject && projectAlias === currentProject.alias && appName === currentApp) {
           if (this.state.logFollowMode) {
-            const buffer = processManager.getLogBuffer(currentProject.alias, currentApp);
+            const buffer = this.supervisor.getLogBuffer(currentProject.alias, currentApp);
             this.state.logScrollOffset = Math.max(0, buffer.lines.length - this.getLogViewHeight());
           } else if (didShift && this.state.logScrollOffset > 0) {
             // Adjust offset to keep the same content in view when buffer shifts
@@ -149,11 +179,23 @@ export class TUIApp {
       this.render();
     });
 
-    // Start render loop with stats and state updates
+    // Re-render on state changes, whether made here or by the supervisor
+    this.unsubscribeState = stateStore.onChange(({ state }) => {
+      this.state.appState = state;
+      // Leave logs alone while follow mode is off (allows text selection)
+      if (this.state.viewMode === 'logs' && !this.state.logFollowMode) return;
+      this.render();
+    });
+
+    // Start render loop with stats and git status
     this.renderInterval = setInterval(async () => {
-      this.state.appState = await loadState();
+      this.refreshTick++;
+      if (this.refreshTick >= PROJECT_REFRESH_TICKS) {
+        this.refreshTick = 0;
+        await this.syncProjects();
+      }
       await this.refreshGitStatus();
-      await processManager.updateStats();
+      this.showStateNotices();
 
       // Skip render when in logs view with follow mode off (allows text selection)
       if (this.state.viewMode === 'logs' && !this.state.logFollowMode) {
@@ -174,10 +216,14 @@ export class TUIApp {
   }
 
   async stop(): Promise<void> {
+    if (!this.running) return;
     this.running = false;
     if (this.renderInterval) {
       clearInterval(this.renderInterval);
     }
+    this.unsubscribeState?.();
+    await stateStore.close();
+    await releaseInstanceLock();
     if (this.momentumInterval) {
       clearInterval(this.momentumInterval);
     }
@@ -185,10 +231,8 @@ export class TUIApp {
       clearTimeout(this.feedbackTimeout);
     }
 
-    // Kill all running processes before exiting
-    if (processManager.isRunning()) {
-      await processManager.stopAllProjects();
-    }
+    // Detach, leaving the supervisor and its apps running
+    this.supervisor.disconnect();
 
     // Restore terminal
     if (this.mouseTrackingEnabled) {
@@ -221,15 +265,64 @@ export class TUIApp {
     }, ACTION_FEEDBACK_MS);
   }
 
+  /**
+   * Tell the user about an unreadable state file that was moved aside
+   */
+  private showStateNotices(): void {
+    const notices = takeStateNotices();
+    if (notices.length > 0) {
+      this.setAction(notices[notices.length - 1]);
+    }
+  }
+
   private async loadProjectsWithGit(): Promise<void> {
+    const projects = await refreshProjects();
     this.state.projects = await Promise.all(
-      PROJECTS.map(async (project) => ({
+      projects.map(async (project) => ({
         ...project,
         git: await getGitStatus(project.path),
       }))
     );
   }
 
+  /**
+   * Pick up worktrees that were added or removed since the last refresh,
+   * keeping the current selections pointed at the same projects
+   */
+  private async syncProjects(): Promise<void> {
+    const projects = await refreshProjects();
+    const previous = this.state.projects;
+    const changed =
+      projects.length !== previous.length ||
+      projects.some((p, i) => p.path !== previous[i].path || p.alias !== previous[i].alias);
+    if (!changed) return;
+
+    const selectedAlias = previous[this.state.selectedProjectIndex]?.alias;
+    const logAlias = previous[this.state.selectedLogProject]?.alias;
+    const added = projects.filter(p => !previous.some(prev => prev.path === p.path));
+    const removed = previous.filter(prev => !projects.some(p => p.path === prev.path));
+
+    this.state.projects = projects.map((project) => ({
+      ...project,
+      git: previous.find(p => p.path === project.path)?.git ?? { branch: 'unknown', isDirty: false },
+    }));
+
+    const lastIndex = Math.max(0, this.state.projects.length - 1);
+    const selectedIdx = this.state.projects.findIndex(p => p.alias === selectedAlias);
+    const logIdx = this.state.projects.findIndex(p => p.alias === logAlias);
+    this.state.selectedProjectIndex = selectedIdx >= 0 ? selectedIdx : Math.min(this.state.selectedProjectIndex, lastIndex);
+    if (selectedIdx < 0) {
+      this.state.selectedAppIndex = null;
+    }
+    this.state.selectedLogProject = logIdx >= 0 ? logIdx : Math.min(this.state.selectedLogProject, lastIndex);
+
+    if (added.length > 0) {
+      this.setAction(`Found ${added.map(p => p.alias).join(', ')}`);
+    } else if (removed.length > 0) {
+      this.setAction(`Removed ${removed.map(p => p.alias).join(', ')}`);
+    }
+  }
+
   private async refreshGitStatus(): Promise<void> {
     await Promise.all(
       this.state.projects.map(async (project) => {
@@ -307,7 +400,7 @@ export class TUIApp {
     const currentProject = this.state.projects[this.state.selectedLogProject];
     if (!currentProject) return;
 
-    const buffer = processManager.getLogBuffer(currentProject.alias, APPS[this.state.selectedLogApp].name);
+    const buffer = this.supervisor.getLogBuffer(currentProject.alias, getConfig().apps[this.state.selectedLogApp].name);
     const viewHeight = this.getLogViewHeight();
     const maxOffset = Math.max(0, buffer.lines.length - viewHeight);
 
@@ -418,6 +511,42 @@ export class TUIApp {
       return;
     }
 
+    if (this.state.instanceConflict) {
+      await this.handleInstanceConflictKeypress(normalizedKey);
+      return;
+    }
+
+    if (this.state.branchPicker) {
+      // Don't normalize - branch names are typed as-is
+      await this.handleBranchPickerKeypress(key);
+      return;
+    }
+
+    if (this.state.configPicker) {
+      await this.handleConfigPickerKeypress(normalizedKey);
+      return;
+    }
+
+    if (this.state.secretsRestartConfirm) {
+      await this.handleSecretsRestartConfirmKeypress(normalizedKey);
+      return;
+    }
+
+    if (this.state.portConflict) {
+      await this.handlePortConflictKeypress(normalizedKey);
+      return;
+    }
+
+    if (this.state.startConfirmProject) {
+      await this.handleStartConfirmKeypress(normalizedKey);
+      return;
+    }
+
+    if (this.state.removeConfirmProject) {
+      await this.handleRemoveConfirmKeypress(normalizedKey);
+      return;
+    }
+
     if (this.state.searchMode) {
       // Don't normalize in search mode - we want to type in any language
       await this.handleSearchKeypress(key);
@@ -425,12 +554,27 @@ export class TUIApp {
       return;
     }
 
+    if (this.state.readOnly && (normalizedKey === 't' || this.isControlKey(normalizedKey))) {
+      if (normalizedKey === 't') {
+        await this.takeOver();
+      } else {
+        this.setAction('Read-only: press t to take over');
+      }
+      this.render();
+      return;
+    }
+
     if (this.state.viewMode === 'logs') {
       await this.handleLogKeypress(normalizedKey);
       this.updateMouseTracking();
       return;
     }
 
+    if (this.state.viewMode === 'crashes') {
+      await this.handleCrashesKeypress(normalizedKey);
+      return;
+    }
+
     await this.handleDashboardKeypress(normalizedKey);
     this.updateMouseTracking();
   }
@@ -441,6 +585,12 @@ export class TUIApp {
       case 'Y':
         await this.quit();
         break;
+      case 's':
+      case 'S':
+        if (!this.state.readOnly) {
+          await this.shutdownSupervisor();
+        }
+        break;
       case 'n':
       case 'N':
       case '\x1b': // Escape
@@ -450,13 +600,166 @@ export class TUIApp {
     this.render();
   }
 
+  private async handleInstanceConflictKeypress(key: string): Promise<void> {
+    switch (key) {
+      case 'a':
+      case 'A':
+        this.state.instanceConflict = null;
+        this.state.readOnly = true;
+        this.setAction('Attached read-only');
+        break;
+      case 't':
+      case 'T':
+        await this.takeOver();
+        break;
+      case 'e':
+      case 'E':
+      case 'q':
+      case '\x1b': // Escape
+        await this.quit();
+        return;
+    }
+    this.render();
+  }
+
+  /**
+   * Whether a key would start, stop or change something in the current view
+   */
+  private isControlKey(key: string): boolean {
+    switch (this.state.viewMode) {
+      case 'dashboard':
+        return DASHBOARD_CONTROL_KEYS.has(key);
+      case 'logs':
+        return key === 'r';
+      case 'crashes':
+        return false;
+    }
+  }
+
+  /**
+   * Become the dashboard in control, closing the one that had it
+   */
+  private async takeOver(): Promise<void> {
+    this.setAction('Taking over...');
+    this.render();
+    try {
+      const holder = await acquireInstanceLock();
+      if (holder) {
+        await takeOverInstanceLock(holder);
+      }
+    } catch (err) {
+      if (this.state.instanceConflict) {
+        this.state.instanceConflict.error = (err as Error).message;
+      } else {
+        this.setAction(`Take over failed: ${(err as Error).message}`);
+      }
+      return;
+    }
+    this.state.instanceConflict = null;
+    this.state.readOnly = false;
+    stateStore.setReadOnly(false);
+    this.setAction('Took over');
+  }
+
+  private async handleBranchPickerKeypress(key: string): Promise<void> {
+    const picker = this.state.branchPicker;
+    if (!picker) return;
+    const matches = this.getBranchMatches(picker);
+
+    switch (key) {
+      case '\x1b': // Escape
+        this.state.branchPicker = null;
+        this.setAction('Cancelled');
+        break;
+
+      case '\x1b[A': // Up arrow
+        picker.selectedIndex = Math.max(0, picker.selectedIndex - 1);
+        break;
+
+      case '\x1b[B': // Down arrow
+        picker.selectedIndex = Math.min(Math.max(0, matches.length - 1), picker.selectedIndex + 1);
+        break;
+
+      case '\r': {
+        // Enter - use the highlighted branch, or create a new branch named after the query
+        const branch = matches[picker.selectedIndex] ?? picker.query.trim();
+        if (!branch) break;
+        this.state.branchPicker = null;
+        await this.createWorktree(picker.rootPath, branch);
+        break;
+      }
+
+      case '\x7f': // Backspace
+        picker.query = picker.query.slice(0, -1);
+        picker.selectedIndex = 0;
+        break;
+
+      default:
+        if (key.length === 1 && key.charCodeAt(0) > 32) {
+          picker.query += key;
+          picker.selectedIndex = 0;
+        }
+    }
+    this.render();
+  }
+
+  private async handleStartConfirmKeypress(key: string): Promise<void> {
+    const alias = this.state.startConfirmProject;
+    switch (key) {
+      case 'y':
+      case 'Y':
+      case '\r': {
+        this.state.startConfirmProject = null;
+        const project = this.state.projects.find(p => p.alias === alias);
+        if (project) {
+          this.setAction(`Starting ${project.alias}...`);
+          await this.startProject(project);
+        }
+        break;
+      }
+      case 'n':
+      case 'N':
+      case '\x1b': // Escape
+        this.state.startConfirmProject = null;
+        break;
+    }
+    this.render();
+  }
+
+  private async handleRemoveConfirmKeypress(key: string): Promise<void> {
+    const alias = this.state.removeConfirmProject;
+    switch (key) {
+      case 'y':
+      case 'Y': {
+        this.state.removeConfirmProject = null;
+        const project = this.state.projects.find(p => p.alias === alias);
+        if (project) {
+          await this.removeWorktree(project);
+        }
+        break;
+      }
+      case 'n':
+      case 'N':
+      case '\x1b': // Escape
+        this.state.removeConfirmProject = null;
+        break;
+    }
+    this.render();
+  }
+
   private async handleDashboardKeypress(key: string): Promise<void> {
     const project = this.state.projects[this.state.selectedProjectIndex];
 
+    if (this.state.selectedAppIndex !== null && project && (await this.handleAppRowKeypress(key, project))) {
+      this.render();
+      return;
+    }
+
     switch (key) {
       case '\x1b[A': // Up arrow
       case 'k':
         this.state.selectedProjectIndex = Math.max(0, this.state.selectedProjectIndex - 1);
+        this.state.selectedAppIndex = null;
         this.setAction('↑ Navigate');
         break;
 
@@ -466,44 +769,56 @@ export class TUIApp {
           this.state.projects.length - 1,
           this.state.selectedProjectIndex + 1
         );
+        this.state.selectedAppIndex = null;
         this.setAction('↓ Navigate');
         break;
 
-      // Number keys for quick project selection
-      case '1':
-        if (this.state.projects.length >= 1) {
-          this.state.selectedProjectIndex = 0;
-          this.setAction('Select #1');
-        }
-        break;
-      case '2':
-        if (this.state.projects.length >= 2) {
-          this.state.selectedProjectIndex = 1;
-          this.setAction('Select #2');
+      case '\x1b[C': // Right arrow - into the project's apps
+      case '\t':
+        if (project) {
+          this.state.selectedAppIndex = 0;
+          this.setAction(`${project.alias} apps`);
         }
         break;
-      case '3':
-        if (this.state.projects.length >= 3) {
-          this.state.selectedProjectIndex = 2;
-          this.setAction('Select #3');
+
+      // Number keys for quick project selection
+      case '1': case '2': case '3': case '4': case '5':
+      case '6': case '7': case '8': case '9': {
+        const idx = parseInt(key, 10) - 1;
+        if (idx < this.state.projects.length) {
+          this.state.selectedProjectIndex = idx;
+          this.state.selectedAppIndex = null;
+          this.setAction(`Select #${key}`);
         }
         break;
+      }
 
       case '\r': // Enter - toggle start/stop for selected project
         if (project) {
-          const wasRunning = processManager.isProjectRunning(project.alias);
+          const wasRunning = this.supervisor.isProjectRunning(project.alias);
           await this.toggleSelectedProject();
           this.setAction(wasRunning ? `Stopping ${project.alias}...` : `Starting ${project.alias}...`);
         }
         break;
 
       case 'c':
-        await this.toggleDopplerConfig();
-        this.setAction(`Config: ${this.state.appState.dopplerConfig}`);
+        if (project) {
+          await this.openConfigPicker(project);
+        }
+        break;
+
+      case 'C':
+        await this.openDefaultConfigPicker(project);
+        break;
+
+      case 'p':
+        if (project) {
+          await this.cycleProfile(project);
+        }
         break;
 
       case 'r':
-        if (project && processManager.isProjectRunning(project.alias)) {
+        if (project && this.supervisor.isProjectRunning(project.alias)) {
           await this.restartSelectedProject();
           this.setAction(`Restarting ${project.alias}...`);
         }
@@ -521,6 +836,22 @@ export class TUIApp {
         this.setAction('Stopping all...');
         break;
 
+      case 'w':
+        await this.openBranchPicker();
+        break;
+
+      case 'x':
+        if (project) {
+          this.state.removeConfirmProject = project.alias;
+        }
+        break;
+
+      case 'e':
+        this.state.viewMode = 'crashes';
+        this.state.selectedCrashIndex = 0;
+        this.setAction('Crashes view');
+        break;
+
       case 'l':
         this.state.viewMode = 'logs';
         this.state.selectedLogProject = this.state.selectedProjectIndex;
@@ -536,10 +867,89 @@ export class TUIApp {
     this.render();
   }
 
+  /**
+   * Keys for the app rows of the selected project. Returns false for keys
+   * that should act on the project instead.
+   */
+  private async handleAppRowKeypress(key: string, project: ProjectWithGit): Promise<boolean> {
+    const apps = getConfig().apps;
+    const appIndex = Math.min(this.state.selectedAppIndex ?? 0, apps.length - 1);
+    const app = apps[appIndex];
+
+    switch (key) {
+      case '\x1b[A': // Up arrow - back to the project row from the first app
+      case 'k':
+        this.state.selectedAppIndex = appIndex > 0 ? appIndex - 1 : null;
+        return true;
+
+      case '\x1b[B': // Down arrow
+      case 'j':
+        this.state.selectedAppIndex = Math.min(apps.length - 1, appIndex + 1);
+        return true;
+
+      case '\x1b[D': // Left arrow
+      case '\x1b': // Escape
+        this.state.selectedAppIndex = null;
+        return true;
+
+      case '\r': { // Enter - toggle start/stop for the selected app
+        const wasRunning = this.supervisor.isAppRunning(project.alias, app.name);
+        if (wasRunning) {
+          this.setAction(`Stopping ${project.alias}/${app.name}...`);
+          this.render();
+          await this.supervisor.stopApp(app.name, project.alias);
+        } else {
+          await this.startApp(app.name, project);
+        }
+        return true;
+      }
+
+      case 's':
+      case 'S':
+        if (this.supervisor.isAppRunning(project.alias, app.name)) {
+          this.setAction(`Stopping ${project.alias}/${app.name}...`);
+          this.render();
+          await this.supervisor.stopApp(app.name, project.alias);
+        }
+        return true;
+
+      // Project-wide actions; go back to the project row for these
+      case 'a': case 'A':
+      case 'c': case 'C':
+      case 'p':
+      case 'w':
+      case 'x':
+        this.setAction('Press ← to act on the whole project');
+        return true;
+
+      case 'r': {
+        const projectState = this.state.appState.activeProjects[project.alias];
+        if (projectState && this.supervisor.isAppRunning(project.alias, app.name)) {
+          this.setAction(`Restarting ${project.alias}/${app.name}...`);
+          this.render();
+          await this.supervisor.restartApp(app.name, project, projectState.secrets);
+        }
+        return true;
+      }
+
+      case 'l':
+        this.state.viewMode = 'logs';
+        this.state.selectedLogProject = this.state.selectedProjectIndex;
+        this.state.selectedLogApp = appIndex;
+        this.state.logScrollOffset = 0;
+        this.state.logFollowMode = true;
+        this.setAction('Logs view');
+        return true;
+
+      default:
+        return false;
+    }
+  }
+
   private async handleLogKeypress(key: string): Promise<void> {
     const currentProject = this.state.projects[this.state.selectedLogProject];
     const buffer = currentProject
-      ? processManager.getLogBuffer(currentProject.alias, APPS[this.state.selectedLogApp].name)
+      ? this.supervisor.getLogBuffer(currentProject.alias, getConfig().apps[this.state.selectedLogApp].name)
       : { lines: [], searchMatches: [] };
     const viewHeight = this.getLogViewHeight();
 
@@ -592,14 +1002,14 @@ export class TUIApp {
         this.state.selectedLogApp = Math.max(0, this.state.selectedLogApp - 1);
         this.state.logScrollOffset = 0;
         this.state.logFollowMode = true;
-        this.setAction(`← ${APPS[this.state.selectedLogApp].name}`);
+        this.setAction(`← ${getConfig().apps[this.state.selectedLogApp].name}`);
         break;
 
       case '\x1b[C': // Right arrow - switch app
-        this.state.selectedLogApp = Math.min(APPS.length - 1, this.state.selectedLogApp + 1);
+        this.state.selectedLogApp = Math.min(getConfig().apps.length - 1, this.state.selectedLogApp + 1);
         this.state.logScrollOffset = 0;
         this.state.logFollowMode = true;
-        this.setAction(`→ ${APPS[this.state.selectedLogApp].name}`);
+        this.setAction(`→ ${getConfig().apps[this.state.selectedLogApp].name}`);
         break;
 
       case '[': // Switch to previous project
@@ -655,7 +1065,7 @@ export class TUIApp {
       case 'r':
         if (currentProject) {
           await this.restartSelectedApp();
-          this.setAction(`Restarting ${APPS[this.state.selectedLogApp].name}...`);
+          this.setAction(`Restarting ${getConfig().apps[this.state.selectedLogApp].name}...`);
         }
         break;
 
@@ -666,6 +1076,49 @@ export class TUIApp {
     this.render();
   }
 
+  private async handleCrashesKeypress(key: string): Promise<void> {
+    const crashes = getRecentCrashes(this.state.appState);
+
+    switch (key) {
+      case '\x1b': // Escape
+        this.state.viewMode = 'dashboard';
+        this.setAction('Dashboard');
+        break;
+
+      case '\x1b[A': // Up arrow
+      case 'k':
+        this.state.selectedCrashIndex = Math.max(0, this.state.selectedCrashIndex - 1);
+        break;
+
+      case '\x1b[B': // Down arrow
+      case 'j':
+        this.state.selectedCrashIndex = Math.min(Math.max(0, crashes.length - 1), this.state.selectedCrashIndex + 1);
+        break;
+
+      case '\r': {
+        // Enter - jump to the crashed app's live logs
+        const crash = crashes[this.state.selectedCrashIndex];
+        const projectIdx = crash ? this.state.projects.findIndex(p => p.alias === crash.project) : -1;
+        const appIdx = crash ? getConfig().apps.findIndex(a => a.name === crash.app) : -1;
+        if (projectIdx >= 0 && appIdx >= 0) {
+          this.state.viewMode = 'logs';
+          this.state.selectedLogProject = projectIdx;
+          this.state.selectedLogApp = appIdx;
+          this.state.logScrollOffset = 0;
+          this.state.logFollowMode = true;
+          this.updateMouseTracking();
+          this.setAction(`Logs: ${crash.project} › ${crash.app}`);
+        }
+        break;
+      }
+
+      case 'q':
+        this.state.quitConfirmMode = true;
+        break;
+    }
+    this.render();
+  }
+
   private async handleSearchKeypress(key: string): Promise<void> {
     switch (key) {
       case '\x1b': // Escape
@@ -699,7 +1152,7 @@ export class TUIApp {
       return;
     }
 
-    const buffer = processManager.getLogBuffer(currentProject.alias, APPS[this.state.selectedLogApp].name);
+    const buffer = this.supervisor.getLogBuffer(currentProject.alias, getConfig().apps[this.state.selectedLogApp].name);
     const query = this.state.searchQuery.toLowerCase();
 
     if (!query) {
@@ -736,40 +1189,270 @@ export class TUIApp {
     const project = this.state.projects[this.state.selectedProjectIndex];
     if (!project) return;
 
-    if (processManager.isProjectRunning(project.alias)) {
+    if (this.supervisor.isProjectRunning(project.alias)) {
       // Stop the project
-      await processManager.stopProject(project.alias);
+      await this.supervisor.stopProject(project.alias);
     } else {
       // Start the project
-      await processManager.startProject(project, this.state.appState.dopplerConfig);
+      await this.startProject(project);
+    }
+  }
+
+  /**
+   * Start a project, first asking what to do about any of its ports that are
+   * held by processes cubicli didn't start
+   */
+  private async startProject(project: Project): Promise<void> {
+    const selection = getProjectSelection(project, this.state.appState);
+    const profile = this.getProfileChoice(project);
+    const conflicts = await this.supervisor.checkPorts(project, profile);
+    if (conflicts.length > 0) {
+      this.state.portConflict = { project, selection, profile, conflicts, index: 0, resolutions: {} };
+      return;
+    }
+    await this.supervisor.startProject(project, selection, profile);
+  }
+
+  private getProfileChoice(project: Project): string {
+    return this.state.appState.profileChoices?.[project.alias] ?? ALL_PROFILE;
+  }
+
+  /**
+   * Start one app (and the dependencies it needs), asking first about ports
+   * other processes hold
+   */
+  private async startApp(appName: string, project: Project): Promise<void> {
+    const selection = getProjectSelection(project, this.state.appState);
+    const profile = this.getProfileChoice(project);
+    const conflicts = await this.supervisor.checkPorts(project, profile, appName);
+    if (conflicts.length > 0) {
+      this.state.portConflict = { project, appName, selection, profile, conflicts, index: 0, resolutions: {} };
+      return;
+    }
+    this.setAction(`Starting ${project.alias}/${appName}...`);
+    this.render();
+    await this.supervisor.startApp(appName, project, selection);
+  }
+
+  /**
+   * Switch the selected project to its next profile, used from its next start
+   */
+  private async cycleProfile(project: ProjectWithGit): Promise<void> {
+    const names = getProfileNames();
+    if (names.length === 1) {
+      this.setAction('No profiles configured');
+      return;
+    }
+
+    const next = names[(names.indexOf(this.getProfileChoice(project)) + 1) % names.length];
+    const state = await stateStore.update((state) => {
+      state.profileChoices = { ...state.profileChoices, [project.alias]: next };
+      return state;
+    });
+    this.state.appState = state;
+
+    const projectState = state.activeProjects[project.alias];
+    const needsRestart = projectState && (projectState.profile ?? ALL_PROFILE) !== next;
+    this.setAction(needsRestart ? `Profile ${next} - [r] to restart with it` : `Profile ${next}`);
+  }
+
+  private async handlePortConflictKeypress(key: string): Promise<void> {
+    const state = this.state.portConflict;
+    if (!state) return;
+
+    let resolution: PortResolution;
+    switch (key) {
+      case 'k':
+        resolution = 'kill';
+        break;
+      case 's':
+        resolution = 'skip';
+        break;
+      case 'p':
+        resolution = 'move';
+        break;
+      case '\x1b': // Escape
+        this.state.portConflict = null;
+        this.setAction(`Did not start ${state.appName ? `${state.project.alias}/${state.appName}` : state.project.alias}`);
+        this.render();
+        return;
+      default:
+        return;
+    }
+
+    state.resolutions[state.conflicts[state.index].app] = resolution;
+    state.index++;
+    if (state.index >= state.conflicts.length) {
+      this.state.portConflict = null;
+      if (state.appName) {
+        this.setAction(`Starting ${state.project.alias}/${state.appName}...`);
+        this.render();
+        await this.supervisor.startApp(state.appName, state.project, state.selection, state.resolutions);
+      } else {
+        this.setAction(`Starting ${state.project.alias}...`);
+        this.render();
+        await this.supervisor.startProject(state.project, state.selection, state.profile, state.resolutions);
+      }
+    }
+    this.render();
+  }
+
+  /**
+   * Pick the secrets config of the selected project
+   */
+  private async openConfigPicker(project: ProjectWithGit): Promise<void> {
+    const current = resolveSecrets(project, getProjectSelection(project, this.state.appState));
+    if (project.secrets?.config) {
+      this.setAction(`${project.alias} always uses ${formatSecrets(current)} (set in config)`);
+      return;
+    }
+    await this.showConfigPicker(project.alias, current, project);
+  }
+
+  /**
+   * Pick the default secrets config for projects started without a choice of their own.
+   * Configs are listed from the selected project's directory.
+   */
+  private async openDefaultConfigPicker(project: ProjectWithGit | undefined): Promise<void> {
+    const current = { provider: getConfig().secrets.provider, config: getDefaultSelection(this.state.appState).config };
+    await this.showConfigPicker(null, current, project);
+  }
+
+  /**
+   * Show the configs the secrets provider offers, loading them in the background
+   */
+  private async showConfigPicker(
+    projectAlias: string | null,
+    current: SecretsSelection,
+    project: ProjectWithGit | undefined
+  ): Promise<void> {
+    const picker: ConfigPickerState = {
+      projectAlias,
+      provider: current.provider,
+      current: current.config,
+      configs: [],
+      fromProvider: true,
+      loading: true,
+      selectedIndex: 0,
+    };
+    this.state.configPicker = picker;
+    this.render();
+
+    const { configs, fromProvider } = project
+      ? await listSecretsConfigs(project, current.provider)
+      : { configs: getConfiguredConfigs(current.provider), fromProvider: false };
+    // The picker may have been closed while loading
+    if (this.state.configPicker !== picker) return;
+
+    picker.configs = configs;
+    picker.fromProvider = fromProvider;
+    picker.loading = false;
+    picker.selectedIndex = Math.max(0, configs.indexOf(current.config));
+  }
+
+  private async handleConfigPickerKeypress(key: string): Promise<void> {
+    const picker = this.state.configPicker;
+    if (!picker) return;
+
+    switch (key) {
+      case '\x1b': // Escape
+        this.state.configPicker = null;
+        break;
+
+      case '\x1b[A': // Up arrow
+      case 'k':
+        picker.selectedIndex = Math.max(0, picker.selectedIndex - 1);
+        break;
+
+      case '\x1b[B': // Down arrow
+      case 'j':
+        picker.selectedIndex = Math.min(Math.max(0, picker.configs.length - 1), picker.selectedIndex + 1);
+        break;
+
+      case '\r': {
+        const config = picker.configs[picker.selectedIndex];
+        if (picker.loading || !config) break;
+        this.state.configPicker = null;
+        const selection = { provider: picker.provider, config };
+        if (picker.projectAlias) {
+          await this.chooseSecretsConfig(picker.projectAlias, selection);
+        } else {
+          await this.chooseDefaultSecretsConfig(selection);
+        }
+        break;
+      }
+    }
+    this.render();
+  }
+
+  /**
+   * Remember a project's secrets config. A running project keeps its current
+   * config until it is restarted, which is offered right away.
+   */
+  private async chooseSecretsConfig(projectAlias: string, selection: SecretsSelection): Promise<void> {
+    const state = await stateStore.update((state) => {
+      state.secretsChoices = { ...state.secretsChoices, [projectAlias]: selection };
+      return state;
+    });
+    this.state.appState = state;
+
+    const running = state.activeProjects[projectAlias]?.secrets;
+    const changed = running && (running.provider !== selection.provider || running.config !== selection.config);
+    if (this.supervisor.isProjectRunning(projectAlias) && changed) {
+      this.state.secretsRestartConfirm = { projectAlias, selection };
+    } else {
+      this.setAction(`${projectAlias}: ${formatSecrets(selection)}`);
     }
-    this.state.appState = await loadState();
   }
 
-  private async toggleDopplerConfig(): Promise<void> {
-    const currentIdx = DOPPLER_CONFIGS.indexOf(this.state.appState.dopplerConfig);
-    const nextIdx = (currentIdx + 1) % DOPPLER_CONFIGS.length;
-    const newConfig = DOPPLER_CONFIGS[nextIdx];
+  /**
+   * Set the config used by projects started without a choice of their own.
+   * Running projects are left alone.
+   */
+  private async chooseDefaultSecretsConfig(selection: SecretsSelection): Promise<void> {
+    this.state.appState = await stateStore.update((state) => {
+      state.secrets = selection;
+      return state;
+    });
+    this.setAction(`Default config: ${formatSecrets(selection)}`);
+  }
 
-    this.state.appState.dopplerConfig = newConfig;
+  private async handleSecretsRestartConfirmKeypress(key: string): Promise<void> {
+    const confirm = this.state.secretsRestartConfirm;
+    if (!confirm) return;
 
-    // If any projects are running, restart them with new config
-    const runningProjects = processManager.getRunningProjects();
-    for (const alias of runningProjects) {
-      const project = this.state.projects.find(p => p.alias === alias);
-      if (project) {
-        await processManager.restartProject(project, newConfig);
+    switch (key) {
+      case 'y':
+      case 'Y':
+      case '\r': {
+        this.state.secretsRestartConfirm = null;
+        const project = this.state.projects.find(p => p.alias === confirm.projectAlias);
+        if (project) {
+          this.setAction(`Restarting ${project.alias} with ${formatSecrets(confirm.selection)}...`);
+          this.render();
+          await this.supervisor.restartProject(project, confirm.selection);
+        }
+        break;
       }
+      case 'n':
+      case 'N':
+      case '\x1b': // Escape
+        this.state.secretsRestartConfirm = null;
+        this.setAction(`${confirm.projectAlias} uses ${formatSecrets(confirm.selection)} from its next start`);
+        break;
     }
-    this.state.appState = await loadState();
+    this.render();
   }
 
   private async restartSelectedProject(): Promise<void> {
     const project = this.state.projects[this.state.selectedProjectIndex];
-    if (!project || !processManager.isProjectRunning(project.alias)) return;
+    if (!project || !this.supervisor.isProjectRunning(project.alias)) return;
 
-    await processManager.restartProject(project, this.state.appState.dopplerConfig);
-    this.state.appState = await loadState();
+    await this.supervisor.restartProject(
+      project,
+      getProjectSelection(project, this.state.appState),
+      this.getProfileChoice(project)
+    );
   }
 
   private async restartSelectedApp(): Promise<void> {
@@ -779,20 +1462,71 @@ export class TUIApp {
     const projectState = this.state.appState.activeProjects[currentProject.alias];
     if (!projectState) return;
 
-    const appName = APPS[this.state.selectedLogApp].name;
-    const dopplerConfig = projectState.dopplerConfig;
-    await processManager.restartApp(appName, currentProject, dopplerConfig);
-    this.state.appState = await loadState();
+    const appName = getConfig().apps[this.state.selectedLogApp].name;
+    await this.supervisor.restartApp(appName, currentProject, projectState.secrets);
+  }
+
+  private async openBranchPicker(): Promise<void> {
+    const rootPath = await getRootRepo(this.state.projects[this.state.selectedProjectIndex]);
+    if (!rootPath) {
+      this.setAction('No git repository to add a worktree to');
+      return;
+    }
+
+    this.state.branchPicker = {
+      rootPath,
+      branches: await getAllBranches(rootPath),
+      query: '',
+      selectedIndex: 0,
+    };
+  }
+
+  private getBranchMatches(picker: BranchPickerState): string[] {
+    const query = picker.query.toLowerCase();
+    return picker.branches.filter(branch => branch.toLowerCase().includes(query));
+  }
+
+  private async createWorktree(rootPath: string, branch: string): Promise<void> {
+    this.setAction(`Creating worktree for ${branch}...`);
+    this.render();
+
+    try {
+      const project = await this.supervisor.createWorktree(rootPath, branch);
+      await this.syncProjects();
+      const idx = this.state.projects.findIndex(p => p.alias === project.alias);
+      if (idx >= 0) this.state.selectedProjectIndex = idx;
+      this.state.startConfirmProject = project.alias;
+      this.setAction(`Created ${project.alias}`);
+    } catch (err) {
+      this.setAction(`Worktree failed: ${(err as Error).message}`);
+    }
+  }
+
+  private async removeWorktree(project: ProjectWithGit): Promise<void> {
+    const rootPath = await getRootRepo(project);
+    if (!rootPath) {
+      this.setAction(`${project.alias} is not a git worktree`);
+      return;
+    }
+
+    this.setAction(`Removing ${project.alias}...`);
+    this.render();
+
+    try {
+      await this.supervisor.removeWorktree(rootPath, project);
+      await this.syncProjects();
+      this.setAction(`Removed ${project.alias}`);
+    } catch (err) {
+      this.setAction(`Remove failed: ${(err as Error).message}`);
+    }
   }
 
   private async startAllProjects(): Promise<void> {
-    await processManager.startAllProjects(this.state.appState.dopplerConfig);
-    this.state.appState = await loadState();
+    await this.supervisor.startAllProjects(getDefaultSelection(this.state.appState));
   }
 
   private async stopAllProjects(): Promise<void> {
-    await processManager.stopAllProjects();
-    this.state.appState = await loadState();
+    await this.supervisor.stopAllProjects();
   }
 
   private async quit(): Promise<void> {
@@ -800,6 +1534,19 @@ export class TUIApp {
     process.exit(0);
   }
 
+  private async shutdownSupervisor(): Promise<void> {
+    this.state.quitConfirmMode = false;
+    this.setAction('Stopping all projects...');
+    this.render();
+    try {
+      await this.supervisor.shutdown();
+    } catch (err) {
+      this.setAction(`Shutdown failed: ${(err as Error).message}`);
+      return;
+    }
+    await this.quit();
+  }
+
   private render(): void {
     if (!this.running) return;
 
@@ -807,8 +1554,47 @@ export class TUIApp {
 
     if (this.state.quitConfirmMode) {
       lines = this.renderQuitConfirmation();
+    } else if (this.state.instanceConflict) {
+      const { holder, error } = this.state.instanceConflict;
+      lines = this.renderDialog(
+        colors.warning('  cubicli is already open'),
+        [
+          `  Another window (pid ${holder.pid}) controls the apps.`,
+          '  Attach read-only to watch them, or take',
+          '  over and close the other window.',
+          ...(error ? ['', colors.error(`  ${error}`)] : []),
+        ],
+        `  ${colors.key('[a]')} Attach read-only  ${colors.key('[t]')} Take over  ${colors.key('[e]')} Exit`
+      );
+    } else if (this.state.branchPicker) {
+      lines = this.renderBranchPicker(this.state.branchPicker);
+    } else if (this.state.configPicker) {
+      lines = this.renderConfigPicker(this.state.configPicker);
+    } else if (this.state.secretsRestartConfirm) {
+      const { projectAlias, selection } = this.state.secretsRestartConfirm;
+      lines = this.renderDialog(
+        colors.warning(`  Restart ${projectAlias}?`),
+        [`  It is running with ${formatSecrets(this.state.appState.activeProjects[projectAlias]?.secrets ?? selection)}.`, `  Restart it now with ${formatSecrets(selection)}?`],
+        `  ${colors.key('[y]')} Restart  ${colors.key('[n]')} Later`
+      );
+    } else if (this.state.portConflict) {
+      lines = this.renderPortConflict(this.state.portConflict);
+    } else if (this.state.startConfirmProject) {
+      lines = this.renderDialog(
+        colors.success(`  Created ${this.state.startConfirmProject}`),
+        ['  Start it now?'],
+        `  ${colors.key('[y]')} Yes  ${colors.key('[n]')} No`
+      );
+    } else if (this.state.removeConfirmProject) {
+      lines = this.renderDialog(
+        colors.warning(`  Remove worktree ${this.state.removeConfirmProject}?`),
+        ['  Its apps will be stopped and its', '  directory, logs and nx cache deleted.'],
+        `  ${colors.key('[y]')} Yes  ${colors.key('[n]')} No`
+      );
     } else if (this.state.viewMode === 'dashboard') {
       lines = this.renderDashboard();
+    } else if (this.state.viewMode === 'crashes') {
+      lines = this.renderCrashes();
     } else {
       lines = this.renderLogViewer();
     }
@@ -818,12 +1604,47 @@ export class TUIApp {
   }
 
   private renderQuitConfirmation(): string[] {
+    if (this.state.readOnly) {
+      return this.renderDialog(
+        colors.warning('  Quit cubicli?'),
+        ['  Apps keep running.'],
+        `  ${colors.key('[y]')} Quit  ${colors.key('[n]')} Cancel`
+      );
+    }
+    return this.renderDialog(
+      colors.warning('  Quit cubicli?'),
+      ['  Detaching leaves all apps running.', '  Shutting down stops them.'],
+      `  ${colors.key('[y]')} Detach  ${colors.key('[s]')} Shut down  ${colors.key('[n]')} Cancel`
+    );
+  }
+
+  private renderPortConflict(state: PortConflictState): string[] {
+    const conflict = state.conflicts[state.index];
+    const body: string[] = [];
+    for (const owner of conflict.owners) {
+      body.push(`  ${colors.dim('pid')}     ${owner.pid}${owner.managedBy ? colors.dim(` (cubicli ${owner.managedBy})`) : ''}`);
+      body.push(`  ${colors.dim('command')} ${owner.command}`);
+      body.push(`  ${colors.dim('cwd')}     ${owner.cwd ?? colors.dim('unknown')}`);
+    }
+    const counter = state.conflicts.length > 1 ? colors.dim(` (${state.index + 1}/${state.conflicts.length})`) : '';
+
+    return this.renderDialog(
+      colors.warning(`  ${state.project.alias}/${conflict.app}: port ${conflict.port} is in use`) + counter,
+      body,
+      `  ${colors.key('[k]')} Kill it  ${colors.key('[s]')} Skip app  ${colors.key('[p]')} Other port  ${colors.key('[Esc]')} Cancel`
+    );
+  }
+
+  /**
+   * Render a centered dialog box with a title, body lines and an options row
+   */
+  private renderDialog(title: string, body: string[], options: string): string[] {
     const width = this.state.terminalWidth;
     const height = this.state.terminalHeight;
     const lines: string[] = [];
 
     // Fill with empty lines to center the dialog
-    const dialogHeight = 7;
+    const dialogHeight = body.length + 6;
     const topPadding = Math.floor((height - dialogHeight) / 2);
 
     for (let i = 0; i < topPadding; i++) {
@@ -831,21 +1652,23 @@ export class TUIApp {
     }
 
     // Dialog box
-    const dialogWidth = 40;
+    const contentWidth = Math.max(...[title, ...body, options].map(line => stripAnsi(line).length));
+    const dialogWidth = Math.min(width, Math.max(40, contentWidth + 4));
     const leftPadding = Math.floor((width - dialogWidth) / 2);
     const pad = ' '.repeat(leftPadding);
+    const row = (content: string) =>
+      pad + `${BOX.vertical}${padString(truncateString(content, dialogWidth - 2), dialogWidth - 2)}${BOX.vertical}`;
 
     lines.push(pad + drawBoxTop(dialogWidth));
-    lines.push(pad + `${BOX.vertical}${' '.repeat(dialogWidth - 2)}${BOX.vertical}`);
-    const title = colors.warning('  Quit cubicli?');
-    lines.push(pad + `${BOX.vertical}${padString(title, dialogWidth - 2)}${BOX.vertical}`);
-    lines.push(pad + `${BOX.vertical}${' '.repeat(dialogWidth - 2)}${BOX.vertical}`);
-    const prompt = '  All processes will be stopped.';
-    lines.push(pad + `${BOX.vertical}${padString(prompt, dialogWidth - 2)}${BOX.vertical}`);
-    lines.push(pad + `${BOX.vertical}${' '.repeat(dialogWidth - 2)}${BOX.vertical}`);
-    const options = `  ${colors.key('[y]')} Yes  ${colors.key('[n]')} No`;
-    lines.push(pad + `${BOX.vertical}${padString(options, dialogWidth - 2)}${BOX.vertical}`);
-    lines.push(pad + `${BOX.vertical}${' '.repeat(dialogWidth - 2)}${BOX.vertical}`);
+    lines.push(row(''));
+    lines.push(row(title));
+    lines.push(row(''));
+    for (const line of body) {
+      lines.push(row(line));
+    }
+    lines.push(row(''));
+    lines.push(row(options));
+    lines.push(row(''));
     lines.push(pad + drawBoxBottom(dialogWidth));
 
     // Fill remaining lines
@@ -856,6 +1679,92 @@ export class TUIApp {
     return lines;
   }
 
+  private renderConfigPicker(picker: ConfigPickerState): string[] {
+    const body: string[] = [];
+
+    if (picker.loading) {
+      body.push(colors.dim(`  Loading ${picker.provider} configs...`));
+    } else if (picker.configs.length === 0) {
+      body.push(colors.dim('  No configs available'));
+    } else {
+      if (!picker.fromProvider) {
+        body.push(colors.dim(`  Could not ask ${picker.provider}, showing configured list`), '');
+      }
+      picker.configs.forEach((config, i) => {
+        const label = config === picker.current ? `${config} ${colors.dim('(current)')}` : config;
+        body.push(i === picker.selectedIndex ? colors.selected(`› ${label}`) : `  ${label}`);
+      });
+    }
+
+    const title = picker.projectAlias
+      ? `  Secrets config for ${picker.projectAlias}`
+      : '  Default secrets config for new starts';
+    return this.renderDialog(
+      colors.title(title),
+      body,
+      `  ${colors.key('[↑/↓]')} Select  ${colors.key('[Enter]')} Use  ${colors.key('[Esc]')} Cancel`
+    );
+  }
+
+  private renderBranchPicker(picker: BranchPickerState): string[] {
+    const matches = this.getBranchMatches(picker);
+    const maxVisible = Math.max(3, this.state.terminalHeight - 14);
+
+    // Keep the highlighted branch within the visible window
+    const start = Math.max(0, Math.min(picker.selectedIndex - Math.floor(maxVisible / 2), matches.length - maxVisible));
+    const visible = matches.slice(start, start + maxVisible);
+
+    const body = [`  Branch: ${picker.query}▌`, ''];
+    if (visible.length === 0) {
+      body.push(colors.dim(`  No match - Enter creates branch "${picker.query}"`));
+    }
+    visible.forEach((branch, i) => {
+      const isSelected = start + i === picker.selectedIndex;
+      body.push(isSelected ? colors.selected(`› ${branch}`) : `  ${branch}`);
+    });
+
+    return this.renderDialog(
+      colors.title('  New worktree'),
+      body,
+      `  ${colors.key('[↑/↓]')} Select  ${colors.key('[Enter]')} Create  ${colors.key('[Esc]')} Cancel`
+    );
+  }
+
+  /**
+   * Green = ready, Yellow = starting, Orange = failing health checks, Red = down
+   */
+  private renderAppDot(projectAlias: string, appName: string, status: ProcessInfo['status'] | undefined): string {
+    if (status === 'crash-loop') return STATUS.error;
+    if (!this.supervisor.isAppRunning(projectAlias, appName)) return colors.error('●');
+    if (status === 'running') return colors.success('●');
+    if (status === 'unhealthy') return colors.unhealthy('●');
+    return colors.warning('●'); // Starting
+  }
+
+  private renderAppRow(project: ProjectWithGit, app: AppConfig, status: ProcessInfo['status'] | undefined, appIdx: number): string {
+    const isSelected = appIdx === this.state.selectedAppIndex;
+    const isProcessRunning = this.supervisor.isAppRunning(project.alias, app.name);
+    const info = this.state.appState.activeProjects[project.alias]?.processes[app.name];
+    const port = getAssignedPort(this.state.appState, app, project);
+    const statusText = isProcessRunning || status === 'crash-loop' ? status ?? 'starting' : 'stopped';
+
+    let details = '';
+    if (isProcessRunning && info) {
+      details = `pid ${info.pid}`;
+      const stats = this.supervisor.getStats(project.alias, app.name);
+      if (stats) {
+        details += `  CPU: ${stats.cpu.toFixed(1).padStart(5)}% MEM: ${stats.memory.toFixed(0).padStart(4)}MB`;
+      }
+    }
+    const restarts = info?.restarts ?? 0;
+    const restartStr = restarts > 0 ? `  ↻${restarts}` : '';
+
+    const row = `${padString(app.name, 14)} :${padString(String(port), 6)} ${padString(statusText, 11)} ${details}${restartStr}`;
+    return isSelected
+      ? `    ${colors.selected('›')} ${this.renderAppDot(project.alias, app.name, status)} ${colors.selected(row)}`
+      : `      ${this.renderAppDot(project.alias, app.name, status)} ${colors.dim(row)}`;
+  }
+
   private renderDashboard(): string[] {
     const width = this.state.terminalWidth;
     const lines: string[] = [];
@@ -876,6 +1785,10 @@ export class TUIApp {
     for (const logoLine of logo) {
       lines.push(`${BOX.vertical} ${padString(logoLine, width - 4)} ${BOX.vertical}`);
     }
+    if (this.state.readOnly) {
+      const notice = colors.warning('Read-only: another window controls the apps');
+      lines.push(`${BOX.vertical} ${padString(notice, width - 4)} ${BOX.vertical}`);
+    }
     lines.push(drawHorizontalLine(width));
 
     // Render each project as a card
@@ -885,61 +1798,63 @@ export class TUIApp {
       const projectState = this.state.appState.activeProjects[project.alias];
       const isRunning = !!projectState;
 
-      // Get per-app listening status (port actually responding)
-      const { listening: listeningApps, total: totalApps } = processManager.getListeningAppCount(project.alias);
-      const { running: runningApps } = processManager.getRunningAppCount(project.alias);
+      // Get per-app health (readiness probes passing)
+      const profile = projectState?.profile ?? this.getProfileChoice(project);
+      const profileApps = getProfileApps(profile);
+      const { healthy: healthyApps, total: totalApps } = this.supervisor.getHealthyAppCount(project.alias, profileApps);
+      const { running: runningApps } = this.supervisor.getRunningAppCount(project.alias);
+      const appStatuses = getConfig().apps.map(app =>
+        this.supervisor.getAppStatus(project.alias, app.name) ?? projectState?.processes[app.name]?.status
+      );
 
       // Project header line
       const indicator = isSelected ? colors.selected('›') : ' ';
 
       // Determine status indicator color:
       // - Red: no processes running
-      // - Yellow: processes running but not all ports listening (starting/partial)
-      // - Green: all ports listening
+      // - Orange: some app failing its health check
+      // - Yellow: processes running but not all ready (starting/partial)
+      // - Green: all apps ready
       let runningStatus: string;
       if (runningApps === 0) {
         runningStatus = STATUS.stopped; // Red - all down
-      } else if (listeningApps === totalApps) {
-        runningStatus = STATUS.running; // Green - all up and listening
+      } else if (healthyApps === totalApps) {
+        runningStatus = STATUS.running; // Green - all up and ready
+      } else if (appStatuses.includes('unhealthy')) {
+        runningStatus = STATUS.unhealthy; // Orange - failing health checks
       } else {
-        runningStatus = colors.warning('●'); // Orange - starting or partial
+        runningStatus = colors.warning('●'); // Yellow - starting or partial
       }
 
       const projectName = project.alias.toUpperCase();
       const branch = truncateString(project.git.branch, 20);
       const dirty = project.git.isDirty ? colors.warning('*') : '';
-      const config = isRunning ? colors.dim(`[${projectState.dopplerConfig}]`) : '';
+      const config = isRunning ? colors.dim(`[${formatSecrets(projectState.secrets)}]`) : '';
+      // Running projects show the profile they run with, stopped ones the one they'll start with
+      const profileLabel = profile === ALL_PROFILE ? '' : isRunning ? colors.highlight(profile) : colors.dim(profile);
 
-      // Build service status dots and ports string
+      // Build service status dots and ports string for the profile's apps and any others started since
       let portsStr = '';
       if (isRunning) {
-        const portStrs = APPS.map(app => {
-          const port = getPortForApp(app, project);
-          const isListening = processManager.isAppListening(project.alias, app.name);
-          const isProcessRunning = processManager.isAppRunning(project.alias, app.name);
-          // Green = listening, Yellow = starting (process running but not listening), Red = down
-          let dot: string;
-          if (isListening) {
-            dot = colors.success('●');
-          } else if (isProcessRunning) {
-            dot = colors.warning('●'); // Starting
-          } else {
-            dot = colors.error('●');
-          }
-          return `${dot} ${app.name.substring(0, 3)}:${port}`;
+        const portStrs = getConfig().apps.flatMap((app, appIdx) => {
+          if (!profileApps.includes(app) && !this.supervisor.isAppRunning(project.alias, app.name)) return [];
+          const port = getAssignedPort(this.state.appState, app, project);
+          const dot = this.renderAppDot(project.alias, app.name, appStatuses[appIdx]);
+          const restarts = projectState.processes[app.name]?.restarts ?? 0;
+          const restartStr = restarts > 0 ? colors.warning(` ↻${restarts}`) : '';
+          return `${dot} ${app.name.substring(0, 3)}:${port}${restartStr}`;
         });
         portsStr = portStrs.join('  ');
       } else {
         portsStr = 'Stopped';
       }
 
-      const headerLeft = `${indicator} ${runningStatus} ${padString(projectName, 8)} ${colors.branch(`(${branch})`)}${dirty} ${config}`;
+      const headerLeft = `${indicator} ${runningStatus} ${padString(projectName, 8)} ${colors.branch(`(${branch})`)}${dirty} ${config} ${profileLabel}`;
       const headerRight = portsStr;
       const headerPadding = width - stripAnsi(headerLeft).length - stripAnsi(headerRight).length - 4;
       let headerLine = `${headerLeft}${' '.repeat(Math.max(1, headerPadding))}${headerRight}`;
 
-      if (isSelected) {
-        const rawHeader = `${indicator} ${listeningApps === 0 ? '○' : listeningApps === totalApps ? '●' : '◐'} ${padString(projectName, 8)} (${branch})${project.git.isDirty ? '*' : ''} ${isRunning ? `[${projectState.dopplerConfig}]` : ''}`;
+      if (isSelected && this.state.selectedAppIndex === null) {
         headerLine = colors.selected(padString(stripAnsi(headerLine), width - 4));
       }
 
@@ -952,8 +1867,8 @@ export class TUIApp {
         let totalMem = 0;
         let statCount = 0;
 
-        for (const app of APPS) {
-          const stats = processManager.getStats(project.alias, app.name);
+        for (const app of getConfig().apps) {
+          const stats = this.supervisor.getStats(project.alias, app.name);
           if (stats) {
             totalCpu += stats.cpu;
             totalMem += stats.memory;
@@ -975,6 +1890,13 @@ export class TUIApp {
         lines.push(`${BOX.vertical} ${padString(statsLine, width - 4)} ${BOX.vertical}`);
       }
 
+      // One row per app while navigating the selected project's apps
+      if (isSelected && this.state.selectedAppIndex !== null) {
+        getConfig().apps.forEach((app, appIdx) => {
+          lines.push(`${BOX.vertical} ${padString(this.renderAppRow(project, app, appStatuses[appIdx], appIdx), width - 4)} ${BOX.vertical}`);
+        });
+      }
+
       // Separator between projects (except last)
       if (i < this.state.projects.length - 1) {
         lines.push(drawHorizontalLine(width));
@@ -984,7 +1906,7 @@ export class TUIApp {
     // Config row
     lines.push(`${BOX.vertical}${' '.repeat(width - 2)}${BOX.vertical}`);
     const runningCount = Object.keys(this.state.appState.activeProjects).length;
-    const configText = `DEFAULT CONFIG: ${colors.highlight(this.state.appState.dopplerConfig)}`;
+    const configText = `DEFAULT CONFIG: ${colors.highlight(formatSecrets(getDefaultSelection(this.state.appState)))}`;
     const runningText = `${runningCount}/${this.state.projects.length} projects running`;
     const configPadding = width - stripAnsi(configText).length - stripAnsi(runningText).length - 4;
     lines.push(
@@ -1001,14 +1923,32 @@ export class TUIApp {
 
     // Help bar
     lines.push(drawHorizontalLine(width));
-    const helpItems = [
-      `${colors.key('[1-3]')} Select`,
+    const helpItems = this.state.readOnly ? [
+      this.state.selectedAppIndex !== null ? `${colors.key('[↑↓]')} App` : `${colors.key('[→]')} Apps`,
+      `${colors.key('[l]')} Logs`,
+      `${colors.key('[e]')} Crashes`,
+      `${colors.key('[t]')} Take over`,
+      `${colors.key('[q]')} Quit`,
+    ].join('  ') : this.state.selectedAppIndex !== null ? [
+      `${colors.key('[↑↓]')} App`,
+      `${colors.key('[Enter]')} Start/Stop`,
+      `${colors.key('[s]')} Stop`,
+      `${colors.key('[r]')} Restart`,
+      `${colors.key('[l]')} Logs`,
+      `${colors.key('[←/Esc]')} Back`,
+      `${colors.key('[q]')} Quit`,
+    ].join('  ') : [
+      `${colors.key(`[1-${Math.min(9, Math.max(1, this.state.projects.length))}]`)} Select`,
+      `${colors.key('[→]')} Apps`,
       `${colors.key('[Enter]')} Toggle`,
       `${colors.key('[a]')} Start All`,
       `${colors.key('[s]')} Stop All`,
-      `${colors.key('[c]')} Config`,
+      `${colors.key('[c/C]')} Config/Default`,
+      `${colors.key('[p]')} Profile`,
       `${colors.key('[r]')} Restart`,
+      `${colors.key('[w/x]')} Add/Rm Worktree`,
       `${colors.key('[l]')} Logs`,
+      `${colors.key('[e]')} Crashes`,
       `${colors.key('[q]')} Quit`,
     ].join('  ');
 
@@ -1033,19 +1973,19 @@ export class TUIApp {
     const lines: string[] = [];
 
     const currentProject = this.state.projects[this.state.selectedLogProject];
-    const app = APPS[this.state.selectedLogApp];
+    const app = getConfig().apps[this.state.selectedLogApp];
     const buffer = currentProject
-      ? processManager.getLogBuffer(currentProject.alias, app.name)
+      ? this.supervisor.getLogBuffer(currentProject.alias, app.name)
       : { lines: [], searchMatches: [] };
 
     // Title bar
     lines.push(drawBoxTop(width));
     const projectName = currentProject?.alias || 'none';
     const projectState = currentProject ? this.state.appState.activeProjects[currentProject.alias] : null;
-    const configName = projectState?.dopplerConfig || this.state.appState.dopplerConfig;
+    const configName = formatSecrets(projectState?.secrets ?? getDefaultSelection(this.state.appState));
     const title = colors.title(`  LOGS: ${projectName} › ${app.name}`) + colors.dim(` (${configName})`);
     const projectIndicator = `[${this.state.selectedLogProject + 1}/${this.state.projects.length}]`;
-    const appIndicator = `[${this.state.selectedLogApp + 1}/${APPS.length}]`;
+    const appIndicator = `[${this.state.selectedLogApp + 1}/${getConfig().apps.length}]`;
     const followIndicator = this.state.logFollowMode ? colors.success('FOLLOW ●') : colors.dim('SELECT');
     const searchIndicator = this.state.searchMode
       ? `Search: ${this.state.searchQuery}▌`
@@ -1097,7 +2037,7 @@ export class TUIApp {
           `${colors.key('[/]')} Search`,
           `${colors.key('[n/N]')} Next/Prev`,
           `${colors.key('[f]')} Follow`,
-          `${colors.key('[r]')} Restart`,
+          this.state.readOnly ? `${colors.key('[t]')} Take over` : `${colors.key('[r]')} Restart`,
           `${colors.key('[Esc]')} Back`,
         ].join('  ');
 
@@ -1116,6 +2056,69 @@ export class TUIApp {
     return lines;
   }
 
+  private renderCrashes(): string[] {
+    const width = this.state.terminalWidth;
+    const height = this.state.terminalHeight;
+    const lines: string[] = [];
+    const row = (content: string) => `${BOX.vertical} ${padString(truncateString(content, width - 4), width - 4)} ${BOX.vertical}`;
+
+    const crashes = getRecentCrashes(this.state.appState);
+    this.state.selectedCrashIndex = Math.min(this.state.selectedCrashIndex, Math.max(0, crashes.length - 1));
+    const selected: CrashRecord | undefined = crashes[this.state.selectedCrashIndex];
+
+    // Title bar
+    lines.push(drawBoxTop(width));
+    const title = colors.title('  RECENT CRASHES');
+    const countText = `${crashes.length} recorded`;
+    const titlePadding = width - stripAnsi(title).length - countText.length - 4;
+    lines.push(`${BOX.vertical} ${title}${' '.repeat(Math.max(1, titlePadding))}${countText} ${BOX.vertical}`);
+    lines.push(drawHorizontalLine(width));
+
+    // Crash list takes up to a third of the screen, the selected crash's output the rest
+    const contentHeight = height - 6;
+    const listHeight = Math.max(3, Math.min(crashes.length, Math.floor(contentHeight / 3)));
+    const listStart = Math.max(0, Math.min(this.state.selectedCrashIndex - Math.floor(listHeight / 2), crashes.length - listHeight));
+
+    if (crashes.length === 0) {
+      lines.push(row(colors.dim('  No crashes recorded')));
+    }
+    for (let i = listStart; i < Math.min(crashes.length, listStart + listHeight); i++) {
+      const crash = crashes[i];
+      const when = new Date(crash.exitedAt).toLocaleString('en-US', { hour12: false });
+      const reason = crash.signal ? `signal ${crash.signal}` : `exit code ${crash.exitCode}`;
+      const text = `${padString(when, 22)} ${padString(`${crash.project} › ${crash.app}`, 24)} ${padString(reason, 16)} pid ${crash.pid}`;
+      lines.push(row(i === this.state.selectedCrashIndex ? colors.selected(`› ${text}`) : `  ${text}`));
+    }
+
+    lines.push(drawHorizontalLine(width));
+
+    // Last output of the selected crash
+    const outputHeight = Math.max(0, height - lines.length - 3);
+    const output = selected ? selected.lastLines.slice(-outputHeight) : [];
+    for (let i = 0; i < outputHeight; i++) {
+      lines.push(row(output[i] ?? ''));
+    }
+
+    // Help bar
+    lines.push(drawHorizontalLine(width));
+    const helpItems = [
+      `${colors.key('[↑/↓]')} Select`,
+      `${colors.key('[Enter]')} Open Logs`,
+      `${colors.key('[Esc]')} Back`,
+    ].join('  ');
+    const actionFeedback = this.state.lastAction && (Date.now() - this.state.lastActionTime < ACTION_FEEDBACK_MS)
+      ? colors.info(`▸ ${this.state.lastAction}`)
+      : '';
+    const helpPadding = width - stripAnsi(helpItems).length - stripAnsi(actionFeedback).length - 4;
+    const helpLine = actionFeedback
+      ? `${helpItems}${' '.repeat(Math.max(1, helpPadding))}${actionFeedback}`
+      : helpItems;
+    lines.push(`${BOX.vertical} ${padString(helpLine, width - 4)} ${BOX.vertical}`);
+    lines.push(drawBoxBottom(width));
+
+    return lines;
+  }
+
   private formatUptime(startedAt: string): string {
     const start = new Date(startedAt);
     const now = new Date();
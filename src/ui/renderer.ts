@@ -124,6 +124,7 @@ export const colors = {
   running: chalk.green,
   stopped: chalk.red,
   starting: chalk.yellow,
+  unhealthy: chalk.hex('#FF8700'),
   error: chalk.red.bold,
   success: chalk.green.bold,
   warning: chalk.yellow,
@@ -139,6 +140,7 @@ export const STATUS = {
   running: chalk.green('●'),
   stopped: chalk.red('○'),
   starting: chalk.yellow('◐'),
+  unhealthy: chalk.hex('#FF8700')('●'),
   error: chalk.red('✖'),
 };
 
@@ -1,20 +1,53 @@
-import type { Project, DopplerConfig } from '../config/projects';
+import type { Project, SecretsProviderName, SecretsSelection } from '../config/projects';
 import type { AppState } from '../services/state';
 import type { GitStatus } from '../services/git';
+import type { PortConflict, PortResolution } from '../services/ports';
+import type { InstanceLockHolder } from '../services/instance-lock';
 
-export type ViewMode = 'dashboard' | 'logs';
+export type ViewMode = 'dashboard' | 'logs' | 'crashes';
 
 export interface ProjectWithGit extends Project {
   git: GitStatus;
 }
 
+export interface BranchPickerState {
+  rootPath: string;
+  branches: string[];
+  query: string;
+  selectedIndex: number;
+}
+
+// A project (or one of its apps) about to start whose ports are held by other
+// processes, asking about one conflict at a time
+export interface PortConflictState {
+  project: Project;
+  appName?: string;  // Set when starting a single app
+  selection: SecretsSelection;
+  profile: string;
+  conflicts: PortConflict[];
+  index: number;
+  resolutions: Record<string, PortResolution>;
+}
+
+export interface ConfigPickerState {
+  projectAlias: string | null;  // Null when picking the default for newly started projects
+  provider: SecretsProviderName;
+  current: string;  // Config the project uses now
+  configs: string[];
+  fromProvider: boolean;  // False when showing the configured fallback list
+  loading: boolean;
+  selectedIndex: number;
+}
+
 export interface AppUIState {
   viewMode: ViewMode;
   selectedProjectIndex: number;
+  selectedAppIndex: number | null;  // App row of the selected project; null while the project row is selected
   selectedLogApp: number;
   selectedLogProject: number; // Index of project to view logs for
   logScrollOffset: number;
   logFollowMode: boolean;
+  selectedCrashIndex: number;
   // Velocity-based scrolling state
   scrollVelocity: number;      // Current velocity (lines per tick)
   scrollAccumulator: number;   // Sub-line precision accumulator
@@ -25,6 +58,17 @@ export interface AppUIState {
   searchMatches: number[];
   searchMatchIndex: number;
   quitConfirmMode: boolean;
+  // Worktree slot management
+  branchPicker: BranchPickerState | null;
+  startConfirmProject: string | null;   // Alias of a new slot waiting for "start now?"
+  removeConfirmProject: string | null;  // Alias of a slot waiting for "remove worktree?"
+  configPicker: ConfigPickerState | null;
+  // A running project whose secrets config changed, waiting for "restart now?"
+  secretsRestartConfirm: { projectAlias: string; selection: SecretsSelection } | null;
+  portConflict: PortConflictState | null;
+  // Another dashboard already controls the supervisor, waiting for attach/take over/exit
+  instanceConflict: { holder: InstanceLockHolder; error: string | null } | null;
+  readOnly: boolean;  // Watching only; another dashboard controls the supervisor
   projects: ProjectWithGit[];
   appState: AppState;
   terminalWidth: number;